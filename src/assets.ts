@@ -0,0 +1,192 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import * as path from "node:path";
+import type { AssetHeaders } from "./rules";
+
+export type ObjectHeaders = AssetHeaders & {
+    ContentEncoding?: string;
+};
+
+export interface LocalAsset {
+    key: string;
+    path: string;
+    size: number;
+    etag: string;
+    headers?: ObjectHeaders;
+}
+
+export interface RemoteObject {
+    Key: string;
+    ETag?: string;
+    Size?: number;
+    LastModified?: Date;
+}
+
+export interface AssetSyncPlan {
+    added: LocalAsset[];
+    changed: LocalAsset[];
+    unchanged: LocalAsset[];
+    stale: RemoteObject[];
+}
+
+async function md5Digest(
+    file: string,
+    range?: { start: number; end: number },
+): Promise<Buffer> {
+    const hash = createHash("md5");
+    for await (const chunk of createReadStream(file, range)) {
+        hash.update(chunk);
+    }
+    return hash.digest();
+}
+
+export async function md5File(file: string): Promise<string> {
+    return (await md5Digest(file)).toString("hex");
+}
+
+// Files larger than the chunk size are uploaded in parts, for which S3 uses
+// the MD5 of the concatenated part digests, suffixed with the number of parts.
+export async function fileETag(
+    file: string,
+    size: number,
+    chunkSize: number,
+): Promise<string> {
+    if (size <= chunkSize) {
+        return md5File(file);
+    }
+    const digests: Buffer[] = [];
+    for (let start = 0; start < size; start += chunkSize) {
+        const end = Math.min(start + chunkSize, size) - 1;
+        digests.push(await md5Digest(file, { start, end }));
+    }
+    const hash = createHash("md5").update(Buffer.concat(digests));
+    return `${hash.digest("hex")}-${digests.length}`;
+}
+
+/**
+ * Short hash identifying the contents of a build, used as release ID.
+ * Packages are hashes of the function packages by function name, which
+ * are part of the release as well.
+ */
+export function contentHash(
+    assets: LocalAsset[],
+    packages: Record<string, string> = {},
+): string {
+    const hash = createHash("sha256");
+    for (const asset of [...assets].sort((a, b) =>
+        a.key.localeCompare(b.key),
+    )) {
+        hash.update(`${asset.key}:${asset.etag}\n`);
+    }
+    for (const name of Object.keys(packages).sort()) {
+        hash.update(`${name}.zip:${packages[name]}\n`);
+    }
+    return hash.digest("hex").substring(0, 12);
+}
+
+// S3 returns the ETag wrapped in double quotes
+export function normalizeETag(etag: string | undefined): string | undefined {
+    return etag?.replace(/^"|"$/g, "");
+}
+
+// Called for files outside the directory, like those of symlinked directories
+export type SkipFileCallback = (fullPath: string) => void;
+
+// Keys of the files in the directory, including subdirectories
+export async function listFiles(
+    directory: string,
+    onSkip?: SkipFileCallback,
+): Promise<string[]> {
+    const prefix = directory + path.sep;
+    const files = await fs.readdir(directory, {
+        recursive: true,
+        withFileTypes: true,
+    });
+    const keys: string[] = [];
+    for (const file of files) {
+        if (!file.isFile()) {
+            continue;
+        }
+        const fullPath = path.join(file.parentPath, file.name);
+        if (!fullPath.startsWith(prefix)) {
+            onSkip?.(fullPath);
+            continue;
+        }
+        keys.push(fullPath.substring(prefix.length).split(path.sep).join("/"));
+    }
+    return keys.sort((a, b) => a.localeCompare(b));
+}
+
+export async function listLocalAssets(
+    directory: string,
+    chunkSize: number = Number.POSITIVE_INFINITY,
+    onSkip?: SkipFileCallback,
+): Promise<LocalAsset[]> {
+    const assets: LocalAsset[] = [];
+    for (const key of await listFiles(directory, onSkip)) {
+        const fullPath = path.join(directory, ...key.split("/"));
+        const stat = await fs.stat(fullPath);
+        assets.push({
+            key,
+            path: fullPath,
+            size: stat.size,
+            etag: await fileETag(fullPath, stat.size, chunkSize),
+        });
+    }
+    return assets;
+}
+
+export function sameHeaders(a: ObjectHeaders, b: ObjectHeaders): boolean {
+    const normalize = (headers: ObjectHeaders) =>
+        JSON.stringify([
+            headers.CacheControl,
+            headers.ContentType,
+            headers.ContentEncoding,
+            headers.ContentDisposition,
+            Object.entries(headers.Metadata ?? {}).sort(([a], [b]) =>
+                a.localeCompare(b),
+            ),
+        ]);
+    return normalize(a) === normalize(b);
+}
+
+/**
+ * Compares the local build with the objects in the bucket. Objects are
+ * compared by their ETag, and by the headers they were previously uploaded
+ * with, when known.
+ */
+export function planAssetSync(
+    local: LocalAsset[],
+    remote: RemoteObject[],
+    force = false,
+    previousHeaders: Map<string, ObjectHeaders> = new Map(),
+): AssetSyncPlan {
+    const remoteByKey = new Map(remote.map((object) => [object.Key, object]));
+    const plan: AssetSyncPlan = {
+        added: [],
+        changed: [],
+        unchanged: [],
+        stale: [],
+    };
+    for (const asset of local) {
+        const object = remoteByKey.get(asset.key);
+        const previous = previousHeaders.get(asset.key);
+        remoteByKey.delete(asset.key);
+        if (object === undefined) {
+            plan.added.push(asset);
+        } else if (force || normalizeETag(object.ETag) !== asset.etag) {
+            plan.changed.push(asset);
+        } else if (
+            asset.headers !== undefined &&
+            previous !== undefined &&
+            !sameHeaders(asset.headers, previous)
+        ) {
+            plan.changed.push(asset);
+        } else {
+            plan.unchanged.push(asset);
+        }
+    }
+    plan.stale = [...remoteByKey.values()];
+    return plan;
+}
@@ -1,5 +1,6 @@
 export type CfFnGetAtt = { "Fn::GetAtt": [string, string] };
 export type CfRef<T = string> = { Ref: T };
+export type CfSub = { "Fn::Sub": string };
 
 type CfBase = string | CfRef | CfFnGetAtt;
 
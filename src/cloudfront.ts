@@ -1,4 +1,5 @@
-import type { CfString } from "./cloudformation";
+import { createHash } from "node:crypto";
+import type { CfSelect, CfString } from "./cloudformation";
 
 export const CachePolicies = {
     CachingDisabled: "4135ea2d-6df8-44a3-9df3-4b5a84be39ad",
@@ -7,6 +8,7 @@ export const CachePolicies = {
     "UseOriginCacheControlHeaders-QueryStrings":
         "4cc15a8a-d715-48a4-82b8-cc0b614638fe",
     ServerFunctionCachePolicy: { Ref: "SiteSSRCachePolicy" },
+    ImageOptimizationCachePolicy: { Ref: "SiteImageCachePolicy" },
 } as const;
 
 export const OriginRequestPolicies = {
@@ -35,7 +37,7 @@ export type CloudFrontCacheBehavior = {
         FunctionARN: CfString;
     }>;
     OriginRequestPolicyId: string;
-    ResponseHeadersPolicyId?: string;
+    ResponseHeadersPolicyId?: CfString;
     SmoothStreaming?: boolean;
     TargetOriginId: string;
     ViewerProtocolPolicy: "allow-all" | "https-only" | "redirect-to-https";
@@ -112,6 +114,13 @@ export type CloudFrontDistributionConfig = {
     };
     DefaultCacheBehavior: DefaultCacheBehavior;
     CacheBehaviors: CloudFrontCacheBehavior[];
+    WebACLId?: CfString;
+    CustomErrorResponses?: Array<{
+        ErrorCode: number;
+        ResponseCode?: number;
+        ResponsePagePath?: string;
+        ErrorCachingMinTTL?: number;
+    }>;
 };
 
 export const ServerFunctionCachePolicyConfig = {
@@ -142,8 +151,47 @@ export const ServerFunctionCachePolicyConfig = {
     },
 };
 
+// Optimized images depend on the size and quality in the query string,
+// and on the formats accepted by the browser
+export const ImageOptimizationCachePolicyConfig = {
+    Name: {
+        //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+        "Fn::Sub": "${AWS::StackName}-images",
+    },
+    Comment: {
+        //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+        "Fn::Sub": "Optimized images for ${AWS::StackName}",
+    },
+    DefaultTTL: 86400,
+    MinTTL: 0,
+    MaxTTL: 31536000,
+    ParametersInCacheKeyAndForwardedToOrigin: {
+        EnableAcceptEncodingBrotli: false,
+        EnableAcceptEncodingGzip: false,
+        CookiesConfig: {
+            CookieBehavior: "none",
+        },
+        HeadersConfig: {
+            HeaderBehavior: "whitelist",
+            Headers: ["accept"],
+        },
+        QueryStringsConfig: {
+            QueryStringBehavior: "all",
+        },
+    },
+};
+
 const cloudfrontOrigin = (origin: CloudFrontOrigin) => origin;
 
+const functionUrlDomain = (logicalId: string): CfSelect => ({
+    "Fn::Select": [
+        2,
+        {
+            "Fn::Split": ["/", { "Fn::GetAtt": [logicalId, "FunctionUrl"] }],
+        },
+    ],
+});
+
 export const StandardOrigins = {
     staticFiles: cloudfrontOrigin({
         Id: "StaticFiles",
@@ -176,22 +224,15 @@ export const StandardOrigins = {
             OriginProtocolPolicy: "https-only",
             OriginSSLProtocols: ["TLSv1.2"],
         },
-        DomainName: {
-            "Fn::Select": [
-                2,
-                {
-                    "Fn::Split": [
-                        "/",
-                        {
-                            "Fn::GetAtt": [
-                                "ServerLambdaFunctionUrl",
-                                "FunctionUrl",
-                            ],
-                        },
-                    ],
-                },
-            ],
+        DomainName: functionUrlDomain("ServerLambdaFunctionUrl"),
+    }),
+    imageOptimizationFunction: cloudfrontOrigin({
+        Id: "ImageOptimizationFunction",
+        CustomOriginConfig: {
+            OriginProtocolPolicy: "https-only",
+            OriginSSLProtocols: ["TLSv1.2"],
         },
+        DomainName: functionUrlDomain("ImageLambdaFunctionUrl"),
     }),
 } as const;
 
@@ -263,17 +304,146 @@ export const StandardCacheBehaviors = {
         TargetOriginId: StandardOrigins.serverFunction.Id,
         ViewerProtocolPolicy: "redirect-to-https",
     }),
+    imageOptimizationFunction: partialCacheBehavior({
+        AllowedMethods: HttpMethods.ReadWithoutCors,
+        CachedMethods: HttpMethods.ReadWithoutCors,
+        CachePolicyId: CachePolicies.ImageOptimizationCachePolicy,
+        OriginRequestPolicyId: OriginRequestPolicies.AllViewerExceptHostHeader,
+        TargetOriginId: StandardOrigins.imageOptimizationFunction.Id,
+        ViewerProtocolPolicy: "redirect-to-https",
+    }),
+};
+
+export type ViewerRequestSnippet = {
+    logicalId: string;
+    name: string;
+    comment: string;
+    code: string;
+    // Code before the handler, like imports
+    preamble?: string;
+    // ARN of a KeyValueStore the snippet reads from, which makes the handler async
+    keyValueStore?: CfString;
 };
 
-export const CloudFrontFunctions = {
+// Size of the code of a CloudFront Function
+export const MaxFunctionCodeSize = 10240;
+
+// Leaves room for other snippets in the same function
+export const MaxViewerRequestSnippetSize = 8192;
+
+// Quota of cache behaviors per distribution, besides the default one
+export const MaxCacheBehaviors = 25;
+
+export const ViewerRequestSnippets = {
+    // Before the other snippets, so that nothing is served without credentials
+    basicAuth: (username: string, password: string): ViewerRequestSnippet => ({
+        logicalId: "SiteBasicAuth",
+        name: "basic-auth",
+        comment: "Require a password",
+        code: [
+            `if (!request.headers.authorization || request.headers.authorization.value !== ${JSON.stringify(`Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`)}) {`,
+            'return { statusCode: 401, statusDescription: "Unauthorized", headers: { "www-authenticate": { value: \'Basic realm="Restricted", charset="UTF-8"\' }, "x-robots-tag": { value: "noindex" } } };',
+            "}",
+        ].join(" "),
+    }),
     forwardHostHeader: {
-        AutoPublish: true,
-        FunctionCode:
-            'function handler(event) { var request = event.request; request.headers["x-forwarded-host"] = request.headers.host; return request; }',
-        FunctionConfig: {
-            Comment: "Forward host header",
-            Runtime: "cloudfront-js-2.0",
-        },
-        Name: { "Fn::Sub": "${AWS::StackName}-${AWS::Region}-forward-host" },
+        logicalId: "SSRForwardHost",
+        name: "forward-host",
+        comment: "Forward host header",
+        code: 'request.headers["x-forwarded-host"] = request.headers.host;',
     },
-} as const;
+    directoryIndex: {
+        logicalId: "SiteDirectoryIndex",
+        name: "directory-index",
+        comment: "Serve index.html for directories",
+        code: [
+            'if (request.uri.endsWith("/")) { request.uri += "index.html"; }',
+            'else if (request.uri.indexOf(".", request.uri.lastIndexOf("/")) === -1) { request.uri += "/index.html"; }',
+        ].join(" "),
+    },
+    // Before precompressed, which applies to the rewritten URI
+    prerenderedPages: (
+        routes: Record<string, string>,
+    ): ViewerRequestSnippet => ({
+        logicalId: "SitePrerenderedPages",
+        name: "prerendered-pages",
+        comment: "Serve prerendered pages",
+        code: [
+            `var prerenderedPages = ${JSON.stringify(routes)};`,
+            'var prerenderedRoute = request.uri.replace(/(.)\\/$/, "$1");',
+            // Own properties only, /constructor isn't a page
+            'if (Object.prototype.hasOwnProperty.call(prerenderedPages, prerenderedRoute)) { request.uri = "/" + prerenderedPages[prerenderedRoute]; }',
+        ].join(" "),
+    }),
+    precompressed: (
+        extensions: string[],
+        encodings: Array<{ token: string; extension: string }>,
+    ): ViewerRequestSnippet => ({
+        logicalId: "SitePrecompressed",
+        name: "precompressed",
+        comment: "Serve precompressed assets",
+        code: [
+            `if (/\\.(${extensions.join("|")})$/.test(request.uri)) {`,
+            'var acceptEncoding = request.headers["accept-encoding"] ? request.headers["accept-encoding"].value : "";',
+            // Quality values by coding, where q=0 rejects a coding and * stands for the unlisted ones
+            "var encodingQualities = {};",
+            'acceptEncoding.split(",").forEach(function (coding) { var params = coding.split(";"); var q = 1;',
+            'params.slice(1).forEach(function (param) { var pair = param.split("="); if (pair[0].trim().toLowerCase() === "q") { q = parseFloat(pair[1]) || 0; } });',
+            "encodingQualities[params[0].trim().toLowerCase()] = q; });",
+            "var hasEncodingQuality = function (token) { return Object.prototype.hasOwnProperty.call(encodingQualities, token); };",
+            'var encodingQuality = function (token) { return hasEncodingQuality(token) ? encodingQualities[token] : hasEncodingQuality("*") ? encodingQualities["*"] : 0; };',
+            // The highest quality wins, ties go to the first configured encoding
+            'var bestEncodingQuality = 0; var bestEncodingExtension = "";',
+            `${JSON.stringify(encodings.map(({ token, extension }) => [token, extension]))}.forEach(function (encoding) { var q = encodingQuality(encoding[0]); if (q > bestEncodingQuality) { bestEncodingQuality = q; bestEncodingExtension = encoding[1]; } });`,
+            "request.uri += bestEncodingExtension;",
+            "}",
+        ].join(" "),
+    }),
+};
+
+/**
+ * Combines the snippets into a single viewer-request function,
+ * as CloudFront only allows one function per event type on a cache behavior.
+ */
+export function viewerRequestFunction(snippets: ViewerRequestSnippet[]) {
+    const single = snippets.length === 1 ? snippets[0] : undefined;
+    const pascalCase = (name: string) =>
+        name.replace(/(^|-)(\w)/g, (_match, _dash, char: string) =>
+            char.toUpperCase(),
+        );
+    const logicalId =
+        single?.logicalId ??
+        `SiteViewerRequest${snippets.map((snippet) => pascalCase(snippet.name)).join("")}`;
+    const name =
+        single?.name ??
+        `viewer-request-${createHash("sha1")
+            .update(snippets.map((snippet) => snippet.name).join(","))
+            .digest("hex")
+            .substring(0, 8)}`;
+    const preamble = snippets
+        .map((snippet) => snippet.preamble)
+        .filter((code) => code !== undefined);
+    // A function can only be associated with a single KeyValueStore
+    const keyValueStore = snippets.find(
+        (snippet) => snippet.keyValueStore !== undefined,
+    )?.keyValueStore;
+    return {
+        logicalId,
+        properties: {
+            AutoPublish: true,
+            FunctionCode: `${preamble.map((code) => `${code} `).join("")}${keyValueStore === undefined ? "" : "async "}function handler(event) { var request = event.request; ${snippets.map((snippet) => snippet.code).join(" ")} return request; }`,
+            FunctionConfig: {
+                Comment: snippets.map((snippet) => snippet.comment).join(", "),
+                Runtime: "cloudfront-js-2.0",
+                ...(keyValueStore === undefined
+                    ? {}
+                    : {
+                          KeyValueStoreAssociations: [
+                              { KeyValueStoreARN: keyValueStore },
+                          ],
+                      }),
+            },
+            Name: { "Fn::Sub": `\${AWS::StackName}-\${AWS::Region}-${name}` },
+        },
+    };
+}
@@ -0,0 +1,139 @@
+import { createReadStream, createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import * as path from "node:path";
+import { pipeline } from "node:stream/promises";
+import zlib from "node:zlib";
+
+export type Encoding = "br" | "gzip";
+
+export const EncodingExtensions: Record<Encoding, string> = {
+    br: ".br",
+    gzip: ".gz",
+};
+
+export const CompressibleExtensions = [
+    "html",
+    "js",
+    "mjs",
+    "css",
+    "json",
+    "map",
+    "svg",
+    "xml",
+    "txt",
+    "wasm",
+    "webmanifest",
+];
+
+export function isCompressible(key: string): boolean {
+    const extension = path.extname(key).substring(1).toLowerCase();
+    return CompressibleExtensions.includes(extension);
+}
+
+function compressor(encoding: Encoding) {
+    switch (encoding) {
+        case "br":
+            return zlib.createBrotliCompress({
+                params: {
+                    [zlib.constants.BROTLI_PARAM_QUALITY]:
+                        zlib.constants.BROTLI_MAX_QUALITY,
+                },
+            });
+        case "gzip":
+            return zlib.createGzip({
+                level: zlib.constants.Z_BEST_COMPRESSION,
+            });
+    }
+}
+
+async function isNewer(file: string, than: string): Promise<boolean> {
+    try {
+        const [stat, otherStat] = await Promise.all([
+            fs.stat(file),
+            fs.stat(than),
+        ]);
+        return stat.mtimeMs >= otherStat.mtimeMs;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Writes a compressed copy of every compressible file without a sibling
+ * from the build to the output directory, at the same relative path, so
+ * the build output stays untouched. Copies newer than their original are
+ * reused, and those of removed files are deleted.
+ */
+export async function generateCompressedVariants(
+    directory: string,
+    outputDirectory: string,
+    encodings: Encoding[],
+): Promise<number> {
+    const files = await fs.readdir(directory, {
+        recursive: true,
+        withFileTypes: true,
+    });
+    const existing = new Set(
+        files.map((file) => path.join(file.parentPath, file.name)),
+    );
+    const targets = new Set<string>();
+    let generated = 0;
+    for (const file of files) {
+        if (!file.isFile() || !isCompressible(file.name)) {
+            continue;
+        }
+        const fullPath = path.join(file.parentPath, file.name);
+        for (const encoding of encodings) {
+            if (existing.has(fullPath + EncodingExtensions[encoding])) {
+                continue;
+            }
+            const target = path.join(
+                outputDirectory,
+                path.relative(directory, fullPath) +
+                    EncodingExtensions[encoding],
+            );
+            targets.add(target);
+            if (await isNewer(target, fullPath)) {
+                continue;
+            }
+            await fs.mkdir(path.dirname(target), { recursive: true });
+            await pipeline(
+                createReadStream(fullPath),
+                compressor(encoding),
+                createWriteStream(target),
+            );
+            generated++;
+        }
+    }
+    await fs.mkdir(outputDirectory, { recursive: true });
+    for (const file of await fs.readdir(outputDirectory, {
+        recursive: true,
+        withFileTypes: true,
+    })) {
+        const fullPath = path.join(file.parentPath, file.name);
+        if (file.isFile() && !targets.has(fullPath)) {
+            await fs.rm(fullPath);
+        }
+    }
+    return generated;
+}
+
+/**
+ * Returns the encoding of a compressed variant, along with the key of the
+ * original file, if the key is a compressed sibling of another file.
+ */
+export function compressedVariant(
+    key: string,
+    keys: Set<string>,
+): { encoding: Encoding; originalKey: string } | undefined {
+    for (const [encoding, extension] of Object.entries(EncodingExtensions)) {
+        if (!key.endsWith(extension)) {
+            continue;
+        }
+        const originalKey = key.substring(0, key.length - extension.length);
+        if (keys.has(originalKey)) {
+            return { encoding: encoding as Encoding, originalKey };
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,84 @@
+const RetryableErrorCodes = [
+    "SlowDown",
+    "Throttling",
+    "ThrottlingException",
+    "TooManyRequestsException",
+    "RequestLimitExceeded",
+    "RequestTimeout",
+    "ServiceUnavailable",
+    "InternalError",
+];
+
+function errorCode(err: unknown): string | undefined {
+    if (typeof err !== "object" || err == null) {
+        return undefined;
+    }
+    const error = err as { code?: unknown; providerError?: { code?: unknown } };
+    const code = error.providerError?.code ?? error.code;
+    return typeof code === "string" ? code : undefined;
+}
+
+function statusCode(err: unknown): number | undefined {
+    if (typeof err !== "object" || err == null) {
+        return undefined;
+    }
+    const error = err as {
+        statusCode?: unknown;
+        providerError?: { statusCode?: unknown };
+    };
+    const code = error.providerError?.statusCode ?? error.statusCode;
+    return typeof code === "number" ? code : undefined;
+}
+
+export function isThrottlingError(err: unknown): boolean {
+    const code = errorCode(err);
+    if (code !== undefined && RetryableErrorCodes.includes(code)) {
+        return true;
+    }
+    const status = statusCode(err);
+    return status === 429 || status === 500 || status === 503;
+}
+
+export const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    {
+        retries = 5,
+        baseDelay = 200,
+    }: { retries?: number; baseDelay?: number } = {},
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (attempt >= retries || !isThrottlingError(err)) {
+                throw err;
+            }
+            // Exponential backoff with full jitter
+            await sleep(Math.random() * baseDelay * 2 ** attempt);
+        }
+    }
+}
+
+export async function mapConcurrently<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    const workers = Array.from(
+        { length: Math.max(1, Math.min(limit, items.length)) },
+        worker,
+    );
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,272 @@
+import { once } from "node:events";
+import { createReadStream, createWriteStream } from "node:fs";
+import type { LocalAsset, ObjectHeaders } from "./assets";
+import type { CfString, CfSub } from "./cloudformation";
+
+// The assets, one after the other, and the list of where each one starts
+export const SiteAssetsArtifact = "frontend-assets.data";
+export const SiteAssetsListArtifact = "frontend-assets.json";
+export const SiteAssetsHandlerArtifact = "frontend-assets-handler.zip";
+
+export const SiteAssetsHandlerRuntime = "nodejs22.x";
+
+// Largest object a single PutObject request can write
+const MaxObjectSize = 5 * 1024 * 1024 * 1024;
+
+export interface SiteAssetsFile {
+    key: string;
+    offset: number;
+    size: number;
+    headers: Partial<ObjectHeaders>;
+}
+
+/**
+ * Writes the assets one after the other to the artifact, and lists where
+ * each one starts, so the handler can copy them with range requests.
+ */
+export async function writeSiteAssetsArtifact(
+    assets: LocalAsset[],
+    file: string,
+): Promise<SiteAssetsFile[]> {
+    const output = createWriteStream(file);
+    const files: SiteAssetsFile[] = [];
+    let offset = 0;
+    try {
+        for (const asset of assets) {
+            let size = 0;
+            for await (const chunk of createReadStream(asset.path)) {
+                size += chunk.length;
+                if (!output.write(chunk)) {
+                    await once(output, "drain");
+                }
+            }
+            if (size > MaxObjectSize) {
+                throw new Error(
+                    `${asset.key} is larger than 5 GB, which the custom resource can't copy, use assetDeployment: upload`,
+                );
+            }
+            files.push({
+                key: asset.key,
+                offset,
+                size,
+                // Files without known type get the S3 default
+                headers: {
+                    ...asset.headers,
+                    ContentType: asset.headers?.ContentType ?? undefined,
+                },
+            });
+            offset += size;
+        }
+    } finally {
+        output.end();
+        await once(output, "close");
+    }
+    return files;
+}
+
+/**
+ * Handler of the Custom::SiteAssets resource. It copies every file from
+ * the assets artifact in the deployment bucket to the site bucket with its
+ * headers, streaming each one with a range request. When the Lambda is
+ * about to time out, the copies are cancelled and the resource fails.
+ * Deleting the stack, or rolling back its creation, deletes the files it
+ * copied. That never fails, so it can't block removing the stack.
+ */
+export const SiteAssetsHandlerCode = [
+    'import { CloudFormationClient, DescribeStacksCommand } from "@aws-sdk/client-cloudformation";',
+    "import {",
+    "    DeleteObjectsCommand,",
+    "    GetObjectCommand,",
+    "    PutObjectCommand,",
+    "    S3Client,",
+    '} from "@aws-sdk/client-s3";',
+    'import { setMaxListeners } from "node:events";',
+    "",
+    "export const s3 = new S3Client({});",
+    "export const cloudformation = new CloudFormationClient({});",
+    "",
+    "async function readFiles({ SourceBucket, ListKey }, abortSignal) {",
+    "    const list = await s3.send(",
+    "        new GetObjectCommand({ Bucket: SourceBucket, Key: ListKey }),",
+    "        { abortSignal },",
+    "    );",
+    "    return JSON.parse(await list.Body.transformToString()).files;",
+    "}",
+    "",
+    "// Runs the action for 16 files at a time, until one fails or the work is cancelled",
+    "async function forEachFile(files, signal, action) {",
+    "    const failure = new AbortController();",
+    "    const abortSignal = AbortSignal.any([signal, failure.signal]);",
+    "    // Every request in progress listens for the cancellation",
+    "    setMaxListeners(64, abortSignal);",
+    "    let next = 0;",
+    "    const worker = async () => {",
+    "        while (next < files.length) {",
+    "            abortSignal.throwIfAborted();",
+    "            try {",
+    "                await action(files[next++], abortSignal);",
+    "            } catch (err) {",
+    "                failure.abort(err);",
+    "                throw err;",
+    "            }",
+    "        }",
+    "    };",
+    "    await Promise.allSettled(Array.from({ length: 16 }, worker));",
+    "    abortSignal.throwIfAborted();",
+    "}",
+    "",
+    "async function deploy(properties, signal) {",
+    '    const { SourceBucket, SourceKey, DestinationBucket, DestinationPrefix = "" } = properties;',
+    "    const files = await readFiles(properties, signal);",
+    "    await forEachFile(files, signal, async ({ key, offset, size, headers }, abortSignal) => {",
+    "        const source =",
+    "            size === 0",
+    "                ? undefined",
+    "                : await s3.send(",
+    "                      new GetObjectCommand({",
+    "                          Bucket: SourceBucket,",
+    "                          Key: SourceKey,",
+    '                          Range: "bytes=" + offset + "-" + (offset + size - 1),',
+    "                      }),",
+    "                      { abortSignal },",
+    "                  );",
+    "        await s3.send(",
+    "            new PutObjectCommand({",
+    "                ...headers,",
+    "                Bucket: DestinationBucket,",
+    "                Key: DestinationPrefix + key,",
+    '                Body: source?.Body ?? "",',
+    "                ContentLength: size,",
+    "            }),",
+    "            { abortSignal },",
+    "        );",
+    "    });",
+    "    return files.length;",
+    "}",
+    "",
+    "// Removing the resource from the template keeps the files, which the site still serves",
+    "async function deletingStack({ StackId }) {",
+    "    const { Stacks } = await cloudformation.send(new DescribeStacksCommand({ StackName: StackId }));",
+    '    return ["DELETE_IN_PROGRESS", "ROLLBACK_IN_PROGRESS"].includes(Stacks[0].StackStatus);',
+    "}",
+    "",
+    "async function remove(properties, signal) {",
+    '    const { DestinationBucket, DestinationPrefix = "" } = properties;',
+    "    const files = await readFiles(properties, signal);",
+    "    for (let start = 0; start < files.length; start += 1000) {",
+    "        await s3.send(",
+    "            new DeleteObjectsCommand({",
+    "                Bucket: DestinationBucket,",
+    "                Delete: {",
+    "                    Objects: files",
+    "                        .slice(start, start + 1000)",
+    "                        .map(({ key }) => ({ Key: DestinationPrefix + key })),",
+    "                    Quiet: true,",
+    "                },",
+    "            }),",
+    "            { abortSignal: signal },",
+    "        );",
+    "    }",
+    "    return files.length;",
+    "}",
+    "",
+    "async function respond(event, status, reason) {",
+    "    await fetch(event.ResponseURL, {",
+    '        method: "PUT",',
+    '        headers: { "content-type": "" },',
+    "        body: JSON.stringify({",
+    "            Status: status,",
+    "            Reason: reason,",
+    "            PhysicalResourceId: event.PhysicalResourceId ?? event.LogicalResourceId,",
+    "            StackId: event.StackId,",
+    "            RequestId: event.RequestId,",
+    "            LogicalResourceId: event.LogicalResourceId,",
+    "        }),",
+    "    });",
+    "}",
+    "",
+    "export async function handler(event, context) {",
+    "    // Cancel the work before the Lambda times out, instead of leaving the stack waiting",
+    "    const timeout = new AbortController();",
+    "    const timer = setTimeout(",
+    '        () => timeout.abort(new Error("Timed out copying the assets")),',
+    "        context.getRemainingTimeInMillis() - 10000,",
+    "    );",
+    "    try {",
+    '        if (event.RequestType === "Delete") {',
+    "            try {",
+    "                if (await deletingStack(event)) {",
+    "                    const count = await remove(event.ResourceProperties, timeout.signal);",
+    '                    console.log("Deleted " + count + " files");',
+    "                }",
+    "            } catch (err) {",
+    '                console.warn("Keeping the files:", err);',
+    "            }",
+    "        } else {",
+    "            const count = await deploy(event.ResourceProperties, timeout.signal);",
+    '            console.log("Copied " + count + " files");',
+    "        }",
+    '        await respond(event, "SUCCESS");',
+    "    } catch (err) {",
+    "        console.error(err);",
+    '        await respond(event, "FAILED", String(err));',
+    "    } finally {",
+    "        clearTimeout(timer);",
+    "    }",
+    "}",
+    "",
+].join("\n");
+
+/**
+ * Role of the handler, which may read the artifacts of this service from the
+ * deployment bucket and write to the site bucket.
+ */
+export function siteAssetsRole(deploymentArtifacts: CfString | CfSub) {
+    return {
+        AssumeRolePolicyDocument: {
+            Version: "2012-10-17",
+            Statement: [
+                {
+                    Effect: "Allow",
+                    Principal: { Service: "lambda.amazonaws.com" },
+                    Action: "sts:AssumeRole",
+                },
+            ],
+        },
+        ManagedPolicyArns: [
+            {
+                "Fn::Sub":
+                    //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                    "arn:${AWS::Partition}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole",
+            },
+        ],
+        Policies: [
+            {
+                PolicyName: "SiteAssets",
+                PolicyDocument: {
+                    Version: "2012-10-17",
+                    Statement: [
+                        {
+                            Effect: "Allow",
+                            Action: "s3:GetObject",
+                            Resource: deploymentArtifacts,
+                        },
+                        {
+                            Effect: "Allow",
+                            Action: "cloudformation:DescribeStacks",
+                            Resource: { Ref: "AWS::StackId" },
+                        },
+                        {
+                            Effect: "Allow",
+                            Action: ["s3:PutObject", "s3:DeleteObject"],
+                            Resource: {
+                                //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                                "Fn::Sub": "${SiteBucket.Arn}/*",
+                            },
+                        },
+                    ],
+                },
+            },
+        ],
+    };
+}
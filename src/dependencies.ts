@@ -0,0 +1,185 @@
+import { existsSync, readFileSync } from "node:fs";
+import fs from "node:fs/promises";
+import * as path from "node:path";
+
+export interface InstalledPackage {
+    name: string;
+    // Real location on disk
+    directory: string;
+    // Location in the function package, e.g. node_modules/a/node_modules/b
+    packagePath: string;
+}
+
+interface PackageJson {
+    dependencies?: Record<string, string>;
+    optionalDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+}
+
+async function readPackageJson(
+    directory: string,
+): Promise<PackageJson | undefined> {
+    try {
+        return JSON.parse(
+            await fs.readFile(path.join(directory, "package.json"), "utf8"),
+        );
+    } catch {
+        return undefined;
+    }
+}
+
+// Places in the function package where Node.js looks for a package
+// required from the package at the given place, closest first
+function lookupPaths(packagePath: string, name: string): string[] {
+    const segments = packagePath === "" ? [] : packagePath.split("/");
+    const paths: string[] = [];
+    for (let length = segments.length; length >= 0; length--) {
+        if (length > 0 && segments[length - 1] === "node_modules") {
+            continue;
+        }
+        paths.push(
+            [...segments.slice(0, length), "node_modules", name].join("/"),
+        );
+    }
+    return paths;
+}
+
+/**
+ * Lists the installed packages needed at runtime by the project: its
+ * dependencies and theirs, but not its devDependencies. Packages are looked
+ * up like Node.js does, so hoisted packages in a parent directory (e.g. the
+ * root of a monorepo) or in the store of pnpm are found. They are placed in
+ * the top-level node_modules of the function package, unless they were
+ * nested in the package depending on them, or another version is already
+ * found from there.
+ */
+export async function productionDependencies(
+    projectDirectory: string,
+): Promise<InstalledPackage[]> {
+    const packages = new Map<string, InstalledPackage>();
+
+    async function resolve(
+        name: string,
+        directory: string,
+        packagePath: string,
+    ): Promise<InstalledPackage | undefined> {
+        for (let current = directory; ; current = path.dirname(current)) {
+            const candidate = path.join(current, "node_modules", name);
+            if ((await readPackageJson(candidate)) !== undefined) {
+                const parentPath = path.posix.join(
+                    packagePath,
+                    path.relative(directory, current).split(path.sep).join("/"),
+                );
+                return {
+                    name,
+                    directory: await fs.realpath(candidate),
+                    packagePath: path.posix.join(
+                        // Above the project, everything ends up in the root
+                        parentPath.startsWith("..") ? "" : parentPath,
+                        "node_modules",
+                        name,
+                    ),
+                };
+            }
+            if (path.dirname(current) === current) {
+                return undefined;
+            }
+        }
+    }
+
+    async function visit(directory: string, packagePath: string) {
+        const packageJson = (await readPackageJson(directory)) ?? {};
+        const required = Object.keys(packageJson.dependencies ?? {});
+        const optional = [
+            ...Object.keys(packageJson.optionalDependencies ?? {}),
+            ...Object.keys(packageJson.peerDependencies ?? {}),
+        ];
+        // Dependencies are placed before theirs, so that they are found first
+        const placed: InstalledPackage[] = [];
+        for (const name of new Set([...required, ...optional])) {
+            const installed = await resolve(name, directory, packagePath);
+            if (installed === undefined) {
+                if (required.includes(name)) {
+                    throw new Error(
+                        `Dependency ${name} of ${directory} is not installed`,
+                    );
+                }
+                continue;
+            }
+            const found = lookupPaths(packagePath, name)
+                .map((lookupPath) => packages.get(lookupPath))
+                .find((candidate) => candidate !== undefined);
+            if (found?.directory === installed.directory) {
+                continue;
+            }
+            const nestedPath = path.posix.join(
+                packagePath,
+                "node_modules",
+                name,
+            );
+            const dependency = {
+                ...installed,
+                packagePath:
+                    found === undefined && installed.packagePath !== nestedPath
+                        ? path.posix.join("node_modules", name)
+                        : nestedPath,
+            };
+            if (!packages.has(dependency.packagePath)) {
+                packages.set(dependency.packagePath, dependency);
+                placed.push(dependency);
+            }
+        }
+        for (const dependency of placed) {
+            await visit(dependency.directory, dependency.packagePath);
+        }
+    }
+
+    await visit(projectDirectory, "");
+    return [...packages.values()].sort((a, b) =>
+        a.packagePath.localeCompare(b.packagePath),
+    );
+}
+
+// Files at the root of a workspace, next to the lock file
+const WorkspaceRootFiles = [
+    "pnpm-lock.yaml",
+    "pnpm-workspace.yaml",
+    "yarn.lock",
+    "package-lock.json",
+    "npm-shrinkwrap.json",
+    "bun.lock",
+    "bun.lockb",
+];
+
+function hasWorkspaces(directory: string): boolean {
+    try {
+        return (
+            JSON.parse(
+                readFileSync(path.join(directory, "package.json"), "utf8"),
+            ).workspaces !== undefined
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Finds the root of the workspace containing the project, where the lock
+ * file is, by looking in the project directory and its parents. Without a
+ * workspace, this is the project directory.
+ */
+export function workspaceRoot(projectDirectory: string): string {
+    for (let current = projectDirectory; ; current = path.dirname(current)) {
+        if (
+            WorkspaceRootFiles.some((file) =>
+                existsSync(path.join(current, file)),
+            ) ||
+            hasWorkspaces(current)
+        ) {
+            return current;
+        }
+        if (path.dirname(current) === current) {
+            return projectDirectory;
+        }
+    }
+}
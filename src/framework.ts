@@ -0,0 +1,163 @@
+import { pathToFileURL } from "node:url";
+import type { FunctionDefinitionHandler } from "serverless";
+import type Aws from "serverless/aws";
+import type { CfString } from "./cloudformation";
+import type { CloudFrontCacheBehavior, CloudFrontOrigin } from "./cloudfront";
+import type { RouteRules } from "./route-rules";
+
+export interface PackageJson {
+    dependencies: Record<string, string>;
+    devDependencies: Record<string, string>;
+}
+
+// Options from custom.frontend which depend on the framework
+export interface FrameworkConfig {
+    ssr?: boolean;
+    ssrForwardHost?: boolean;
+    streaming?: boolean;
+}
+
+export type SiteMode = "ssr" | "spa" | "static";
+
+export type FrameworkFunction = Omit<
+    FunctionDefinitionHandler,
+    "name" | "environment"
+> & {
+    // Values can refer to resources, e.g. { Ref: "SiteBucket" }
+    environment?: Record<string, CfString>;
+    role?: string;
+    url?: boolean | { invokeMode: "BUFFERED" | "RESPONSE_STREAM" };
+};
+
+/**
+ * What the plugin offers to framework adapters. Paths are relative to the
+ * root of the frontend, except for artifacts, which are relative to the
+ * service directory.
+ */
+export interface FrameworkContext {
+    root: string;
+    config: FrameworkConfig;
+    log: {
+        info(message: string): void;
+        warning(message: string): void;
+        error(message: string): void;
+    };
+    hasFile(file: string): Promise<boolean>;
+    readJson<T>(file: string): Promise<T | undefined>;
+    readFile(file: string): Promise<string | undefined>;
+    // Files in the directory and its subdirectories, relative to it
+    listFiles(directory: string): Promise<string[]>;
+    packageJson(): Promise<PackageJson>;
+    // Command running a package.json script with the detected package manager
+    runScriptCommand(script: string): string[];
+    // Command running a binary of an installed package
+    execCommand(command: string, ...args: string[]): string[];
+    // Prefix of the assets in the site bucket, known after the build
+    assetPrefix(): Promise<string>;
+    // Adds the SSR function, packaged as .serverless/frontend-function.zip
+    addServerFunction(handler: string): void;
+    // Adds another function, named <service>-<stage>-<name>
+    addFunction(name: string, definition: FrameworkFunction): void;
+    functionDefinition(name: string): FrameworkFunction | undefined;
+    // Zips the directory, e.g. to .serverless/frontend-function.zip
+    packageDirectory(artifact: string, directory: string): Promise<void>;
+    // Packages a server build with its production dependencies and a shim
+    packageNodeServer(serverDirectory: string, shim: string): Promise<void>;
+    // Logical ID of the role of the SSR function, undefined when it isn't part of the stack
+    serverFunctionRole(): string | undefined;
+    // Physical ID of a resource of the deployed stack, e.g. the name of a bucket
+    stackResourceId(logicalId: string): Promise<string | undefined>;
+    // Uploads the files which aren't in the bucket yet, returns how many
+    uploadNewFiles(
+        directory: string,
+        bucketName: string,
+        prefix: string,
+    ): Promise<number>;
+    emptyBucket(bucketName: string): Promise<void>;
+    // Request to the AWS API, with the credentials of the provider
+    request<T>(service: string, method: string, params: object): Promise<T>;
+}
+
+// Routes to other origins than the SSR function and the site bucket
+export interface FrameworkRoutes {
+    origins?: CloudFrontOrigin[];
+    // Take precedence over the behaviors of the static files
+    cacheBehaviors?: CloudFrontCacheBehavior[];
+    resources?: Record<string, Aws.CloudFormationResource>;
+}
+
+export interface FrameworkAdapter {
+    // Value of the framework option
+    name: string;
+    // Logged when the framework is detected
+    displayName?: string;
+    // Whether the project uses the framework
+    detect?(
+        packageJson: PackageJson,
+        context: FrameworkContext,
+    ): boolean | Promise<boolean>;
+    // Completes the configuration once the framework is known, whether detected or configured
+    configure?(context: FrameworkContext): void | Promise<void>;
+    siteMode(context: FrameworkContext): SiteMode;
+    // Defaults to the build script of the project
+    buildCommand?(context: FrameworkContext): string | string[];
+    buildEnvironment?(context: FrameworkContext): Record<string, string>;
+    // Files to upload to the site bucket
+    clientDirectory(context: FrameworkContext): string;
+    // Keys of files which never change, as their name contains a hash
+    immutableAssets?: RegExp;
+    // HTML files of prerendered pages, relative to the client directory
+    prerenderedPages?(context: FrameworkContext): Promise<string[]>;
+    // Caching, headers and redirects by route, applied to SSR routes
+    routeRules?(context: FrameworkContext): Promise<RouteRules>;
+    // Whether the build streams responses from the SSR function
+    streaming?(context: FrameworkContext): Promise<boolean>;
+    // False when the SSR function only returns whole responses, even with streaming: true
+    canStream?: boolean;
+    addFunctions?(context: FrameworkContext): void;
+    // Packages the functions after the build
+    packageFunctions?(context: FrameworkContext): Promise<void>;
+    routes?(context: FrameworkContext): FrameworkRoutes;
+    // Runs after the deployment of the stack, e.g. to fill caches
+    afterDeploy?(context: FrameworkContext): Promise<void>;
+    // Runs before the removal of the stack, e.g. to empty buckets
+    beforeRemove?(context: FrameworkContext): Promise<void>;
+}
+
+// A dynamic import() that isn't compiled to require(), as ES modules can't be required
+const importModule = new Function("specifier", "return import(specifier)") as (
+    specifier: string,
+) => Promise<{ default?: unknown }>;
+
+function isFrameworkAdapter(value: unknown): value is FrameworkAdapter {
+    return (
+        typeof value === "object" &&
+        value != null &&
+        typeof (value as FrameworkAdapter).name === "string" &&
+        typeof (value as FrameworkAdapter).siteMode === "function" &&
+        typeof (value as FrameworkAdapter).clientDirectory === "function"
+    );
+}
+
+/**
+ * Loads the adapters exported by the modules from custom.frontend.adapters.
+ * A module exports an adapter, or an array of them, as its default export.
+ */
+export async function loadFrameworkAdapters(
+    modules: string[],
+    serviceDir: string,
+): Promise<FrameworkAdapter[]> {
+    const adapters: FrameworkAdapter[] = [];
+    for (const module of modules) {
+        const resolved = require.resolve(module, { paths: [serviceDir] });
+        const exported = await importModule(pathToFileURL(resolved).href);
+        const candidates = [exported.default ?? exported].flat();
+        if (candidates.length === 0 || !candidates.every(isFrameworkAdapter)) {
+            throw new Error(
+                `Module ${module} doesn't export a framework adapter`,
+            );
+        }
+        adapters.push(...candidates);
+    }
+    return adapters;
+}
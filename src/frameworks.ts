@@ -0,0 +1,466 @@
+import {
+    ImageOptimizationCachePolicyConfig,
+    StandardCacheBehaviors,
+    StandardOrigins,
+} from "./cloudfront";
+import { sleep } from "./concurrency";
+import type {
+    FrameworkAdapter,
+    FrameworkContext,
+    PackageJson,
+} from "./framework";
+import { LambdaShimHandler, nodeListenerShim, reactRouterShim } from "./lambda";
+import {
+    CacheBucketKeyPrefix,
+    cacheResources,
+    ImageFunctionArtifact,
+    ImageFunctionRole,
+    imageOptimizationRole,
+    OpenNextAssets,
+    OpenNextCache,
+    OpenNextImageFunction,
+    type OpenNextOutput,
+    OpenNextOutputFile,
+    OpenNextRevalidationFunction,
+    OpenNextServerFunction,
+    OpenNextTagCacheFile,
+    RevalidationFunctionArtifact,
+    RevalidationFunctionRole,
+    revalidationRole,
+    serverCachePolicy,
+    type TagCacheItem,
+} from "./nextjs";
+import { inlinedRouteRules, NitroServerDirectory } from "./nitro";
+import type { RouteRules } from "./route-rules";
+
+const ServerFunctionArtifact = ".serverless/frontend-function.zip";
+
+function hasDependency(
+    packageJson: PackageJson,
+    name: string,
+    includeDev = false,
+): boolean {
+    return (
+        name in packageJson.dependencies ||
+        (includeDev && name in packageJson.devDependencies)
+    );
+}
+
+// Build info written by Nitro, as far as used by the plugin
+interface NitroBuildInfo {
+    config?: {
+        awsLambda?: { streaming?: boolean };
+    };
+}
+
+async function nitroStreaming(context: FrameworkContext): Promise<boolean> {
+    const nitroJson =
+        await context.readJson<NitroBuildInfo>(".output/nitro.json");
+    const streaming = nitroJson?.config?.awsLambda?.streaming;
+    if (streaming == null) {
+        context.log.error(
+            "Unable to detect streaming support from .output/nitro.json, assuming disabled.",
+        );
+    }
+    return streaming ?? false;
+}
+
+/**
+ * Reads the route rules from the server build, failing when they can't be
+ * told apart from other code, as CloudFront would serve the routes
+ * differently than the SSR function.
+ */
+async function nitroRouteRules(context: FrameworkContext): Promise<RouteRules> {
+    const files = (await context.listFiles(NitroServerDirectory)).filter(
+        (file) => /\.m?js$/.test(file) && !file.startsWith("node_modules/"),
+    );
+    // By their JSON, as chunks can share the same config
+    const found = new Map<string, { routeRules: RouteRules; file: string }>();
+    for (const file of files) {
+        const code = await context.readFile(`${NitroServerDirectory}/${file}`);
+        for (const routeRules of code === undefined
+            ? []
+            : inlinedRouteRules(code)) {
+            const key = JSON.stringify(routeRules);
+            if (!found.has(key)) {
+                found.set(key, { routeRules, file });
+            }
+        }
+    }
+    const candidates = [...found.values()];
+    if (candidates.length === 0) {
+        throw new Error(
+            `Unable to find the route rules in the runtime config of ${NitroServerDirectory}, build it with the aws-lambda preset`,
+        );
+    }
+    if (candidates.length > 1) {
+        throw new Error(
+            `Found different route rules in ${NitroServerDirectory} (${candidates.map(({ file }) => file).join(", ")}), unable to tell which belong to the runtime config`,
+        );
+    }
+    return candidates[0].routeRules;
+}
+
+// Nitro and the frameworks built on it, using the aws-lambda preset
+function nitroAdapter(
+    adapter: Pick<FrameworkAdapter, "name" | "displayName" | "detect">,
+    immutableAssets: RegExp,
+): FrameworkAdapter {
+    return {
+        ...adapter,
+        siteMode: () => "ssr",
+        buildEnvironment: () => ({
+            NITRO_PRESET: "aws-lambda",
+            SERVER_PRESET: "aws-lambda",
+        }),
+        clientDirectory: () => ".output/public",
+        immutableAssets,
+        // Prerendered routes are written to the public assets
+        prerenderedPages: async (context) =>
+            (await context.listFiles(".output/public")).filter((file) =>
+                file.endsWith(".html"),
+            ),
+        routeRules: nitroRouteRules,
+        streaming: nitroStreaming,
+        addFunctions: (context) =>
+            context.addServerFunction("server/index.handler"),
+        packageFunctions: (context) =>
+            context.packageDirectory(ServerFunctionArtifact, ".output"),
+    };
+}
+
+const tanstackStart = nitroAdapter(
+    {
+        name: "tanstack-start",
+        displayName: "TanStack Start",
+        detect: (packageJson) =>
+            hasDependency(packageJson, "@tanstack/react-start"),
+    },
+    /^assets\//,
+);
+
+const nextjs: FrameworkAdapter = {
+    name: "nextjs",
+    displayName: "Next.js",
+    detect(packageJson, context) {
+        if (!hasDependency(packageJson, "next")) {
+            return false;
+        }
+        if (!hasDependency(packageJson, "@opennextjs/aws", true)) {
+            context.log.warning(
+                "Next.js apps are built using @opennextjs/aws, which isn't installed.",
+            );
+        }
+        return true;
+    },
+    siteMode: () => "ssr",
+    // Runs next build, and converts the output for Lambda
+    buildCommand: (context) => context.execCommand("open-next", "build"),
+    clientDirectory: () => OpenNextAssets,
+    immutableAssets: /^_next\/static\//,
+    async streaming(context) {
+        const output =
+            await context.readJson<OpenNextOutput>(OpenNextOutputFile);
+        if (output === undefined) {
+            context.log.error(
+                `Unable to detect streaming support from ${OpenNextOutputFile}, assuming disabled.`,
+            );
+        }
+        return output?.origins?.default?.streaming ?? false;
+    },
+    addFunctions(context) {
+        context.addServerFunction("index.handler");
+        const server = context.functionDefinition("server");
+        if (server !== undefined) {
+            server.environment = {
+                CACHE_BUCKET_NAME: { Ref: "SiteCacheBucket" },
+                CACHE_BUCKET_KEY_PREFIX: CacheBucketKeyPrefix,
+                CACHE_BUCKET_REGION: { Ref: "AWS::Region" },
+                REVALIDATION_QUEUE_URL: { Ref: "SiteRevalidationQueue" },
+                REVALIDATION_QUEUE_REGION: { Ref: "AWS::Region" },
+                CACHE_DYNAMO_TABLE: { Ref: "SiteTagCache" },
+                ...server.environment,
+            };
+        }
+        // Serves resized images from the site bucket at /_next/image
+        context.addFunction("image", {
+            handler: "index.handler",
+            role: ImageFunctionRole,
+            timeout: 30,
+            memorySize: 1536,
+            events: [],
+            url: true,
+            environment: { BUCKET_NAME: { Ref: "SiteBucket" } },
+            package: { artifact: ImageFunctionArtifact },
+        });
+        // Regenerates the stale pages the SSR function queued
+        context.addFunction("revalidation", {
+            handler: "index.handler",
+            role: RevalidationFunctionRole,
+            timeout: 30,
+            events: [
+                {
+                    sqs: {
+                        arn: { "Fn::GetAtt": ["SiteRevalidationQueue", "Arn"] },
+                        batchSize: 5,
+                    },
+                },
+            ],
+            package: { artifact: RevalidationFunctionArtifact },
+        });
+    },
+    async packageFunctions(context) {
+        await context.packageDirectory(
+            ServerFunctionArtifact,
+            OpenNextServerFunction,
+        );
+        await context.packageDirectory(
+            ImageFunctionArtifact,
+            OpenNextImageFunction,
+        );
+        const output =
+            await context.readJson<OpenNextOutput>(OpenNextOutputFile);
+        await context.packageDirectory(
+            RevalidationFunctionArtifact,
+            output?.additionalProps?.revalidationFunction?.bundle ??
+                OpenNextRevalidationFunction,
+        );
+        // Source images are in the release, which is known after the build
+        const assetPrefix = await context.assetPrefix();
+        const image = context.functionDefinition("image");
+        if (assetPrefix !== "" && image !== undefined) {
+            image.environment = {
+                ...image.environment,
+                BUCKET_KEY_PREFIX: assetPrefix.replace(/\/$/, ""),
+            };
+        }
+    },
+    routes(context) {
+        const role = context.serverFunctionRole();
+        if (role === undefined) {
+            context.log.warning(
+                "The role of the SSR function is set by provider.iam.role, make sure it can access the Next.js caches.",
+            );
+        }
+        return {
+            origins: [StandardOrigins.imageOptimizationFunction],
+            cacheBehaviors: [
+                {
+                    PathPattern: "_next/image*",
+                    ...StandardCacheBehaviors.imageOptimizationFunction,
+                },
+            ],
+            resources: {
+                SiteImageCachePolicy: {
+                    Type: "AWS::CloudFront::CachePolicy",
+                    Properties: {
+                        CachePolicyConfig: ImageOptimizationCachePolicyConfig,
+                    },
+                },
+                [ImageFunctionRole]: {
+                    Type: "AWS::IAM::Role",
+                    Properties: imageOptimizationRole(),
+                },
+                [RevalidationFunctionRole]: {
+                    Type: "AWS::IAM::Role",
+                    Properties: revalidationRole(),
+                },
+                ...cacheResources(),
+                ...(role === undefined
+                    ? {}
+                    : {
+                          SiteServerCachePolicy: {
+                              Type: "AWS::IAM::Policy",
+                              Properties: serverCachePolicy(role),
+                          },
+                      }),
+            },
+        };
+    },
+    // Fills the caches with the prerendered pages of a new build
+    async afterDeploy(context) {
+        const bucketName = await context.stackResourceId("SiteCacheBucket");
+        if (bucketName === undefined) {
+            return;
+        }
+        // Entries regenerated since a previous deployment of the build are kept
+        const uploaded = await context.uploadNewFiles(
+            OpenNextCache,
+            bucketName,
+            `${CacheBucketKeyPrefix}/`,
+        );
+        // The tags of a build are only written once, as revalidations update them
+        const tableName = await context.stackResourceId("SiteTagCache");
+        if (
+            uploaded === 0 ||
+            tableName === undefined ||
+            !(await context.hasFile(OpenNextTagCacheFile))
+        ) {
+            return;
+        }
+        const items =
+            (await context.readJson<TagCacheItem[]>(OpenNextTagCacheFile)) ??
+            [];
+        for (let start = 0; start < items.length; start += 25) {
+            let requests: object[] = items
+                .slice(start, start + 25)
+                .map((item) => ({ PutRequest: { Item: item } }));
+            while (requests.length > 0) {
+                const result = await context.request<{
+                    UnprocessedItems?: Record<string, object[]>;
+                }>("DynamoDB", "batchWriteItem", {
+                    RequestItems: { [tableName]: requests },
+                });
+                requests = result.UnprocessedItems?.[tableName] ?? [];
+                if (requests.length > 0) {
+                    await sleep(500);
+                }
+            }
+        }
+        context.log.info(
+            `Next.js caches: ${uploaded} cache entries, ${items.length} tags`,
+        );
+    },
+    async beforeRemove(context) {
+        const bucketName = await context.stackResourceId("SiteCacheBucket");
+        if (bucketName !== undefined) {
+            await context.emptyBucket(bucketName);
+        }
+    },
+};
+
+const nuxt = nitroAdapter(
+    {
+        name: "nuxt",
+        displayName: "Nuxt",
+        detect: async (packageJson, context) =>
+            hasDependency(packageJson, "nuxt") ||
+            (await context.hasFile("nuxt.config.ts")),
+    },
+    /^_nuxt\//,
+);
+
+const nitro = nitroAdapter(
+    {
+        name: "nitro",
+        displayName: "Nitro-based frontend",
+        detect: (packageJson) => hasDependency(packageJson, "nitro"),
+    },
+    /^assets\//,
+);
+
+const reactRouter: FrameworkAdapter = {
+    name: "react-router",
+    displayName: "React Router",
+    detect: (packageJson) =>
+        hasDependency(packageJson, "@react-router/dev", true) ||
+        hasDependency(packageJson, "@remix-run/dev", true),
+    siteMode: () => "ssr",
+    clientDirectory: () => "build/client",
+    immutableAssets: /^assets\//,
+    addFunctions: (context) => context.addServerFunction(LambdaShimHandler),
+    async packageFunctions(context) {
+        // React Router v7 provides createRequestHandler, Remix v2 its Node.js runtime
+        const packageJson = await context.packageJson();
+        const runtime =
+            !hasDependency(packageJson, "react-router") &&
+            hasDependency(packageJson, "@remix-run/node")
+                ? "@remix-run/node"
+                : "react-router";
+        await context.packageNodeServer(
+            "build/server",
+            reactRouterShim(
+                "server/index.js",
+                runtime,
+                context.config.streaming ?? false,
+            ),
+        );
+    },
+};
+
+const sveltekit: FrameworkAdapter = {
+    name: "sveltekit",
+    displayName: "SvelteKit",
+    detect(packageJson, context) {
+        if (!hasDependency(packageJson, "@sveltejs/kit", true)) {
+            return false;
+        }
+        if (!hasDependency(packageJson, "@sveltejs/adapter-node", true)) {
+            context.log.warning(
+                "SvelteKit apps are deployed using the output of @sveltejs/adapter-node, which isn't installed.",
+            );
+        }
+        return true;
+    },
+    siteMode: () => "ssr",
+    clientDirectory: () => "build/client",
+    immutableAssets: /^_app\/immutable\//,
+    // The shim buffers the response of the request handler
+    canStream: false,
+    addFunctions: (context) => context.addServerFunction(LambdaShimHandler),
+    packageFunctions: (context) =>
+        context.packageNodeServer(
+            "build",
+            nodeListenerShim("server/handler.js", "handler", {
+                // Build URLs from the headers set by CloudFront and the handler
+                PROTOCOL_HEADER: "x-forwarded-proto",
+                ...((context.config.ssrForwardHost ?? true)
+                    ? { HOST_HEADER: "x-forwarded-host" }
+                    : {}),
+            }),
+        ),
+};
+
+const astro: FrameworkAdapter = {
+    name: "astro",
+    displayName: "Astro",
+    detect: (packageJson) => hasDependency(packageJson, "astro"),
+    async configure(context) {
+        // Astro only builds a server with an adapter
+        context.config.ssr ??=
+            (await context.hasFile("package.json")) &&
+            hasDependency(await context.packageJson(), "@astrojs/node");
+    },
+    siteMode: (context) => (context.config.ssr ? "ssr" : "static"),
+    clientDirectory: (context) => (context.config.ssr ? "dist/client" : "dist"),
+    immutableAssets: /^_astro\//,
+    // The shim buffers the response of the request handler
+    canStream: false,
+    addFunctions(context) {
+        if (context.config.ssr) {
+            context.addServerFunction(LambdaShimHandler);
+        }
+    },
+    async packageFunctions(context) {
+        if (context.config.ssr) {
+            await context.packageNodeServer(
+                "dist/server",
+                nodeListenerShim("server/entry.mjs", "handler", {
+                    // Only handle requests, don't start the standalone server
+                    ASTRO_NODE_AUTOSTART: "disabled",
+                }),
+            );
+        }
+    },
+};
+
+const vite: FrameworkAdapter = {
+    name: "vite",
+    displayName: "Vite-based frontend",
+    detect: (packageJson) => hasDependency(packageJson, "vite", true),
+    siteMode: () => "spa",
+    clientDirectory: (context) => (context.config.ssr ? "dist/client" : "dist"),
+    immutableAssets: /^assets\//,
+};
+
+// In order of detection, as some frameworks build on others
+export const BuiltinFrameworks: FrameworkAdapter[] = [
+    tanstackStart,
+    nextjs,
+    nuxt,
+    nitro,
+    reactRouter,
+    sveltekit,
+    astro,
+    vite,
+];
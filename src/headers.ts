@@ -0,0 +1,177 @@
+import type { CfString, CfSub } from "./cloudformation";
+
+type ReferrerPolicy =
+    | "no-referrer"
+    | "no-referrer-when-downgrade"
+    | "origin"
+    | "origin-when-cross-origin"
+    | "same-origin"
+    | "strict-origin"
+    | "strict-origin-when-cross-origin"
+    | "unsafe-url";
+
+// Response headers added by CloudFront, false removes a header set by the defaults
+export interface ResponseHeaders {
+    contentSecurityPolicy?: string | false;
+    contentSecurityPolicyReportOnly?: string | false;
+    strictTransportSecurity?:
+        | boolean
+        | { maxAge?: number; includeSubdomains?: boolean; preload?: boolean };
+    frameOptions?: "DENY" | "SAMEORIGIN" | false;
+    referrerPolicy?: ReferrerPolicy | false;
+    permissionsPolicy?: string | false;
+    contentTypeOptions?: boolean;
+    cors?:
+        | false
+        | {
+              origins: string | string[];
+              methods?: string[];
+              headers?: string[];
+              exposeHeaders?: string[];
+              credentials?: boolean;
+              maxAge?: number;
+          };
+    custom?: Record<string, string>;
+    // Whether to replace the headers set by the origin, defaults to true
+    override?: boolean;
+}
+
+export interface HeadersConfig extends ResponseHeaders {
+    // Overrides for the behaviors of the SSR function and the static files
+    ssr?: ResponseHeaders;
+    assets?: ResponseHeaders;
+}
+
+export type ResponseHeadersPolicyConfig = {
+    Name: CfString | CfSub;
+    Comment: string;
+    CorsConfig?: Record<string, unknown>;
+    CustomHeadersConfig?: {
+        Items: Array<{ Header: string; Value: string; Override: boolean }>;
+    };
+    SecurityHeadersConfig?: Record<string, unknown>;
+};
+
+const DefaultHSTSMaxAge = 31536000;
+
+// Headers of the managed SecurityHeadersPolicy, for policies that add to them
+export const ManagedSecurityHeaders: ResponseHeaders = {
+    strictTransportSecurity: true,
+    contentTypeOptions: true,
+    frameOptions: "SAMEORIGIN",
+    referrerPolicy: "strict-origin-when-cross-origin",
+    custom: { "X-XSS-Protection": "1; mode=block" },
+    override: false,
+};
+
+// Settings of SecurityHeadersConfig by the header they set, which custom headers can't repeat
+export const SecurityHeaderSettings: Record<string, string> = {
+    "content-security-policy": "ContentSecurityPolicy",
+    "x-content-type-options": "ContentTypeOptions",
+    "x-frame-options": "FrameOptions",
+    "referrer-policy": "ReferrerPolicy",
+    "strict-transport-security": "StrictTransportSecurity",
+    "x-xss-protection": "XSSProtection",
+};
+
+export function mergeResponseHeaders(
+    headers: ResponseHeaders,
+    overrides: ResponseHeaders = {},
+): ResponseHeaders {
+    return {
+        ...headers,
+        ...overrides,
+        custom: { ...headers.custom, ...overrides.custom },
+    };
+}
+
+function items<T>(values: T[]) {
+    return { Items: values };
+}
+
+/**
+ * CloudFormation config of a response headers policy, undefined when there
+ * are no headers to add.
+ */
+export function responseHeadersPolicyConfig(
+    headers: ResponseHeaders,
+    name: CfString | CfSub,
+): ResponseHeadersPolicyConfig | undefined {
+    const Override = headers.override ?? true;
+    const security: Record<string, unknown> = {};
+    if (headers.contentSecurityPolicy) {
+        security.ContentSecurityPolicy = {
+            ContentSecurityPolicy: headers.contentSecurityPolicy,
+            Override,
+        };
+    }
+    if (headers.contentTypeOptions) {
+        security.ContentTypeOptions = { Override };
+    }
+    if (headers.frameOptions) {
+        security.FrameOptions = { FrameOption: headers.frameOptions, Override };
+    }
+    if (headers.referrerPolicy) {
+        security.ReferrerPolicy = {
+            ReferrerPolicy: headers.referrerPolicy,
+            Override,
+        };
+    }
+    if (headers.strictTransportSecurity) {
+        const hsts =
+            headers.strictTransportSecurity === true
+                ? {}
+                : headers.strictTransportSecurity;
+        security.StrictTransportSecurity = {
+            AccessControlMaxAgeSec: hsts.maxAge ?? DefaultHSTSMaxAge,
+            IncludeSubdomains: hsts.includeSubdomains ?? false,
+            Preload: hsts.preload ?? false,
+            Override,
+        };
+    }
+    // Headers CloudFront has no security setting for
+    const custom: Record<string, string | false | undefined> = {
+        "Content-Security-Policy-Report-Only":
+            headers.contentSecurityPolicyReportOnly,
+        "Permissions-Policy": headers.permissionsPolicy,
+        ...headers.custom,
+    };
+    const customHeaders = Object.entries(custom)
+        .filter((entry): entry is [string, string] => !!entry[1])
+        .map(([Header, Value]) => ({ Header, Value: String(Value), Override }));
+    const config: ResponseHeadersPolicyConfig = {
+        Name: name,
+        Comment: "Response headers from custom.frontend.headers",
+    };
+    if (Object.keys(security).length > 0) {
+        config.SecurityHeadersConfig = security;
+    }
+    if (customHeaders.length > 0) {
+        config.CustomHeadersConfig = items(customHeaders);
+    }
+    if (headers.cors) {
+        const cors = headers.cors;
+        config.CorsConfig = {
+            AccessControlAllowCredentials: cors.credentials ?? false,
+            AccessControlAllowHeaders: items(cors.headers ?? ["*"]),
+            AccessControlAllowMethods: items(
+                cors.methods ?? ["GET", "HEAD", "OPTIONS"],
+            ),
+            AccessControlAllowOrigins: items([cors.origins].flat()),
+            ...(cors.exposeHeaders === undefined
+                ? {}
+                : {
+                      AccessControlExposeHeaders: items(cors.exposeHeaders),
+                  }),
+            ...(cors.maxAge === undefined
+                ? {}
+                : { AccessControlMaxAgeSec: cors.maxAge }),
+            OriginOverride: Override,
+        };
+    }
+    return config.SecurityHeadersConfig === undefined &&
+        config.CustomHeadersConfig === undefined &&
+        config.CorsConfig === undefined
+        ? undefined
+        : config;
+}
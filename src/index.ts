@@ -1,40 +1,164 @@
 import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
 import fs, { readdir } from "node:fs/promises";
 import * as path from "node:path";
 import archiver from "archiver";
 import { identifyPackageManager } from "identify-package-manager";
 import mime from "mime";
 import type Serverless from "serverless";
-import type { FunctionDefinition } from "serverless";
+import type { FunctionDefinition, FunctionDefinitionHandler } from "serverless";
 import type Aws from "serverless/aws";
 import type Plugin from "serverless/classes/Plugin";
 import {
+    type AssetSyncPlan,
+    contentHash,
+    type LocalAsset,
+    listFiles,
+    listLocalAssets,
+    type ObjectHeaders,
+    planAssetSync,
+    type RemoteObject,
+} from "./assets";
+import type { CfString } from "./cloudformation";
+import {
+    CachePolicies,
     type CloudFrontCacheBehavior,
     type CloudFrontCustomOrigin,
     type CloudFrontDistributionConfig,
-    CloudFrontFunctions,
     type CloudFrontOrigin,
     type CloudFrontOriginGroup,
     cloudfrontArray,
+    type DefaultCacheBehavior,
+    MaxCacheBehaviors,
+    MaxFunctionCodeSize,
+    MaxViewerRequestSnippetSize,
+    ResponseHeaderPolicy,
     ServerFunctionCachePolicyConfig,
     StandardCacheBehaviors,
     StandardOriginGroups,
     StandardOrigins,
+    type ViewerRequestSnippet,
+    ViewerRequestSnippets,
+    viewerRequestFunction,
 } from "./cloudfront";
+import {
+    CompressibleExtensions,
+    compressedVariant,
+    type Encoding,
+    EncodingExtensions,
+    generateCompressedVariants,
+} from "./compression";
+import { mapConcurrently, sleep } from "./concurrency";
+import {
+    SiteAssetsArtifact,
+    SiteAssetsHandlerArtifact,
+    SiteAssetsHandlerCode,
+    SiteAssetsHandlerRuntime,
+    SiteAssetsListArtifact,
+    siteAssetsRole,
+    writeSiteAssetsArtifact,
+} from "./custom-resource";
+import { productionDependencies, workspaceRoot } from "./dependencies";
+import {
+    type FrameworkAdapter,
+    type FrameworkContext,
+    type FrameworkFunction,
+    loadFrameworkAdapters,
+    type PackageJson,
+    type SiteMode,
+} from "./framework";
+import { BuiltinFrameworks } from "./frameworks";
+import {
+    type HeadersConfig,
+    ManagedSecurityHeaders,
+    mergeResponseHeaders,
+    type ResponseHeadersPolicyConfig,
+    responseHeadersPolicyConfig,
+} from "./headers";
+import {
+    InvalidateEverything,
+    InvalidationWaitTimeout,
+    invalidationPaths,
+} from "./invalidation";
+import { LambdaShimFile } from "./lambda";
+import {
+    CurrentManifestKey,
+    type DeploymentManifest,
+    manifestId,
+    manifestKey,
+} from "./manifest";
+import { describeAssetPlan, describeDistribution } from "./plan";
+import { prerenderedRoutes, topLevelRoutes } from "./prerender";
 import { Process } from "./process";
+import type { AwsProvider } from "./provider";
+import {
+    isStorableRedirect,
+    type RedirectRule,
+    RedirectStoreFile,
+    type RewriteRule,
+    redirectStoreData,
+    redirectStoreHash,
+    redirectsSnippet,
+} from "./redirects";
 import {
+    type CloudFormationTemplate,
+    isReleaseRecordKey,
+    packageContentHash,
+    type ReleaseRecord,
+    ReleaseRecordsPrefix,
+    type ReleaseSnapshot,
+    ReleaseSnapshotFile,
+    releaseFilesPrefix,
+    releaseIdFromOriginPath,
+    releaseOriginPath,
+    releasePackageKey,
+    releaseRecordKey,
+    releaseSnapshotKey,
+    rollbackTemplate,
+} from "./releases";
+import {
+    expiredReleases,
+    isExpired,
+    type RetentionConfig,
+    type StaleObjects,
+    StaleObjectsKey,
+    trackStaleObjects,
+} from "./retention";
+import {
+    redirectSnippet,
+    resolveRouteRules,
+    routeCachePolicyConfig,
+    routeCacheTTL,
+    routeHeadersPolicy,
+    routePathPattern,
+} from "./route-rules";
+import { type AssetRule, applyAssetRules } from "./rules";
+import {
+    MetadataPrefix,
+    ReleasesPrefix,
     StandardCacheControl,
     StandardSiteBucket,
     StandardSiteBucketPolicy,
 } from "./s3";
+import {
+    referencedLogicalIds,
+    renameReferences,
+    siteFunctionKey,
+    siteLogicalId,
+    validateSiteName,
+} from "./sites";
+import {
+    DefaultMultipartChunkSize,
+    type S3Client,
+    uploadAsset,
+} from "./upload";
+import { type WafConfig, wafResources } from "./waf";
 
 interface AwsOutput {
     OutputKey: string;
     OutputValue: string;
 }
 
-type Framework = "vite" | "nitro" | "nuxt" | "tanstack-start";
-
 export type ServerlessOutputs = {
     serviceOutputs: {
         set: (name: string, value: string) => void;
@@ -52,7 +176,9 @@ type FunctionDefinitionUrl = {
 interface FrontendConfig {
     buildCommand?: string | string[];
     buildEnvironment?: Record<string, string>;
-    framework?: Framework | null;
+    framework?: string | null;
+    adapters?: string | string[];
+    root?: string;
     ssr?: boolean;
     ssrEnvironment?: Record<string, string>;
     ssrForwardHost?: boolean;
@@ -64,6 +190,33 @@ interface FrontendConfig {
     ssrReservedConcurrency?: number;
     ssrTracing?: string;
     streaming?: boolean;
+    versioned?: boolean;
+    buildId?: "content" | "git" | string;
+    retention?: RetentionConfig;
+    uploadConcurrency?: number;
+    assetDeployment?: "upload" | "custom-resource";
+    maxInvalidationPaths?: number;
+    multipartChunkSize?: number;
+    assetRules?: AssetRule[];
+    redirects?: RedirectRule[];
+    rewrites?: RewriteRule[];
+    redirectStore?: boolean;
+    headers?: boolean | HeadersConfig;
+    // Config of a web ACL to create, or the ARN of an existing one
+    waf?: WafConfig | string;
+    basicAuth?:
+        | false
+        | {
+              username: string;
+              password: string;
+              // Stages to protect, all stages when not given
+              stages?: string[];
+          };
+    compression?:
+        | boolean
+        | {
+              encodings?: Encoding[];
+          };
     aliases?: string[] | string;
     certificate?: string;
     cloudfront?: {
@@ -80,20 +233,53 @@ interface FrontendConfig {
         extraOrigins?: CloudFrontOrigin[];
         extraOriginGroups?: CloudFrontOriginGroup[];
     };
+    // Named sites, the other options are the defaults for each site
+    sites?: Record<string, Omit<FrontendConfig, "sites">>;
+}
+
+interface Site {
+    // Undefined when custom.frontend configures a single site
+    name?: string;
+    config: FrontendConfig;
+    // Keys of the functions added by the framework adapter, without site prefix
+    functions: Set<string>;
+    releaseIdPromise?: Promise<string>;
+    packagedAssets?: LocalAsset[];
+    frameworkAdaptersPromise?: Promise<FrameworkAdapter[]>;
 }
 
 function dummy() {
     // Do nothing, used to fill undefined methods
 }
 
+// Serverless wraps AWS SDK errors, keeping the original in providerError
+function isProviderError(err: unknown, code: string): boolean {
+    return (
+        typeof err === "object" &&
+        err != null &&
+        "providerError" in err &&
+        (err.providerError as { code?: string })?.code === code
+    );
+}
+
+type ObjectIdentifier = {
+    Key: string;
+    VersionId?: string;
+};
+
 class FrontendPlugin implements Plugin {
     commands: Plugin.Commands | undefined;
     hooks: Plugin.Hooks;
     serverless: Serverless & ServerlessOutputs;
     options: Serverless.Options;
-    provider: Aws;
+    provider: AwsProvider;
     log: Plugin.Logging["log"];
     progress: Plugin.Logging["progress"];
+    #preUploading = false;
+    #deployedByStack = false;
+    #sites?: Site[];
+    // Site the hooks are running for
+    #site?: Site;
 
     constructor(
         serverless: Serverless & ServerlessOutputs,
@@ -102,10 +288,12 @@ class FrontendPlugin implements Plugin {
     ) {
         this.serverless = serverless;
         this.options = options;
-        this.provider = this.serverless.getProvider("aws");
+        this.provider = this.serverless.getProvider("aws") as AwsProvider;
         this.hooks = {};
         this.log = log ?? {
             info: dummy,
+            notice: dummy,
+            warning: dummy,
             error: dummy,
         };
         this.progress = progress ?? {
@@ -114,47 +302,233 @@ class FrontendPlugin implements Plugin {
                 remove: dummy,
             }),
         };
+        const site = {
+            usage: "Names of the sites to use, separated by commas, defaults to all sites",
+            type: "string",
+        } as const;
         this.commands = {
             frontend: {
                 commands: {
                     addFunctions: { lifecycleEvents: ["addFunctions"] },
-                    build: { lifecycleEvents: ["build", "package"] },
-                    upload: { lifecycleEvents: ["upload"] },
-                    invalidate: { lifecycleEvents: ["invalidate"] },
+                    build: {
+                        lifecycleEvents: ["build", "package"],
+                        options: { site },
+                    },
+                    upload: {
+                        lifecycleEvents: ["upload"],
+                        options: {
+                            site,
+                            force: {
+                                usage: "Upload all files, even when unchanged",
+                                type: "boolean",
+                            },
+                            "dry-run": {
+                                usage: "List the files that would be uploaded, without uploading them",
+                                type: "boolean",
+                            },
+                        },
+                    },
+                    plan: {
+                        lifecycleEvents: ["package", "plan"],
+                        options: { site },
+                    },
+                    invalidate: {
+                        lifecycleEvents: ["invalidate"],
+                        options: {
+                            site,
+                            wait: {
+                                usage: "Wait until the invalidation has completed",
+                                type: "boolean",
+                            },
+                        },
+                    },
+                    prune: {
+                        lifecycleEvents: ["prune"],
+                        options: {
+                            site,
+                            "dry-run": {
+                                usage: "List the objects that would be deleted, without deleting them",
+                                type: "boolean",
+                            },
+                        },
+                    },
+                    rollback: {
+                        lifecycleEvents: ["rollback"],
+                        options: {
+                            site,
+                            release: {
+                                usage: "ID of the release to roll back to, lists the releases when omitted",
+                                type: "string",
+                            },
+                            wait: {
+                                usage: "Wait until the invalidation has completed",
+                                type: "boolean",
+                            },
+                        },
+                    },
                 },
             },
         };
 
+        // The resources and functions of every site are part of the stack
+        const allSites = () => this.#allSites();
         this.hooks = {
             "before:package:initialize": () =>
                 this.serverless.pluginManager.spawn("frontend:addFunctions"),
             "before:info:info": () =>
                 this.serverless.pluginManager.spawn("frontend:addFunctions"),
-            "after:aws:info:displayEndpoints": this.addSiteUrl.bind(this),
-            "before:package:finalize": this.addResources.bind(this),
-            "before:remove:remove": this.emptySiteBucket.bind(this),
+            "after:aws:info:displayEndpoints": () =>
+                this.#eachSite(() => this.addSiteUrl(), allSites()),
+            "before:package:finalize": () =>
+                this.#eachSite(() => this.addResources(), allSites()),
+            "before:remove:remove": () =>
+                this.#eachSite(async () => {
+                    await this.emptySiteBucket();
+                    await this.beforeRemove();
+                }, allSites()),
             "before:package:createDeploymentArtifacts": () =>
                 this.serverless.pluginManager.spawn("frontend:build"),
             "before:package:function:package": () =>
                 this.serverless.pluginManager.spawn("frontend:build"),
-            "before:deploy:deploy": this.preUploadAssets.bind(this),
+            "before:deploy:deploy": () =>
+                this.#eachSite(() => this.preUploadAssets(), allSites()),
+            "after:aws:deploy:deploy:uploadArtifacts": () =>
+                this.#eachSite(async () => {
+                    await this.uploadAssetArtifacts();
+                    await this.uploadRedirectStore();
+                }, allSites()),
             "after:deploy:deploy": () =>
-                this.serverless.pluginManager.spawn("frontend:upload"),
-            "frontend:addFunctions:addFunctions": this.addFunctions.bind(this),
-            "frontend:build:build": this.build.bind(this),
-            "frontend:build:package": this.packageFunctions.bind(this),
-            "frontend:upload:upload": this.uploadAssets.bind(this),
-            "frontend:invalidate:invalidate":
-                this.createInvalidation.bind(this),
+                this.#eachSite(async () => {
+                    await this.postUploadAssets();
+                    await this.afterDeploy();
+                }, allSites()),
+            "frontend:addFunctions:addFunctions": () =>
+                this.#eachSite(() => this.addFunctions(), allSites()),
+            "frontend:build:build": () => this.#eachSite(() => this.build()),
+            "frontend:build:package": () =>
+                this.#eachSite(() => this.packageFunctions()),
+            "frontend:upload:upload": () =>
+                this.#eachSite(() => this.uploadAssets()),
+            "frontend:plan:package": () =>
+                this.serverless.pluginManager.spawn("package"),
+            "frontend:plan:plan": () => this.#eachSite(() => this.plan()),
+            "frontend:invalidate:invalidate": () =>
+                this.#eachSite(() => this.createInvalidation()),
+            "frontend:rollback:rollback": () =>
+                this.#eachSite(() => this.rollback()),
+            "frontend:prune:prune": () => this.#eachSite(() => this.prune()),
         };
     }
 
-    get customConfig(): FrontendConfig {
+    get #frontendConfig(): FrontendConfig {
         this.serverless.service.custom ??= {};
         this.serverless.service.custom.frontend ??= {};
         return this.serverless.service.custom.frontend;
     }
 
+    // Configuration of the current site
+    get customConfig(): FrontendConfig {
+        return this.#currentSite().config;
+    }
+
+    /**
+     * The sites configured in custom.frontend.sites, which get the other
+     * options as defaults, or the single site configured by custom.frontend.
+     */
+    #allSites(): Site[] {
+        if (this.#sites === undefined) {
+            const { sites, ...defaults } = this.#frontendConfig;
+            this.#sites =
+                sites === undefined
+                    ? [{ config: this.#frontendConfig, functions: new Set() }]
+                    : Object.entries(sites).map(([name, config]) => {
+                          validateSiteName(name);
+                          return {
+                              name,
+                              config: { ...defaults, ...config },
+                              functions: new Set(),
+                          };
+                      });
+            if (this.#sites.length === 0) {
+                throw new Error("No sites configured in custom.frontend.sites");
+            }
+        }
+        return this.#sites;
+    }
+
+    // Sites selected by the site option
+    #selectedSites(): Site[] {
+        const sites = this.#allSites();
+        const names = this.options.site;
+        if (typeof names !== "string") {
+            return sites;
+        }
+        return names.split(",").map((name) => {
+            const site = sites.find((site) => site.name === name.trim());
+            if (site === undefined) {
+                const known = sites
+                    .map((site) => site.name)
+                    .filter((name) => name !== undefined);
+                throw new this.serverless.classes.Error(
+                    known.length === 0
+                        ? `Unknown site '${name}', configure sites in custom.frontend.sites`
+                        : `Unknown site '${name}', expected one of ${known.join(", ")}`,
+                );
+            }
+            return site;
+        });
+    }
+
+    #currentSite(): Site {
+        return this.#site ?? this.#allSites()[0];
+    }
+
+    /**
+     * Runs the action for each site. Commands spawned by the action, like
+     * frontend:upload, only run for the site of the action.
+     */
+    async #eachSite(
+        action: () => Promise<void>,
+        sites: Site[] = this.#selectedSites(),
+    ) {
+        if (this.#site !== undefined) {
+            return action();
+        }
+        for (const site of sites) {
+            this.#site = site;
+            try {
+                await action();
+            } finally {
+                this.#site = undefined;
+            }
+        }
+    }
+
+    // Logical ID of a resource or output of the current site
+    #logicalId(logicalId: string): string {
+        return siteLogicalId(this.#currentSite().name, logicalId);
+    }
+
+    // Key of a function of the current site
+    #functionKey(key: string): string {
+        return siteFunctionKey(this.#currentSite().name, key);
+    }
+
+    /**
+     * Path of an artifact of the current site, relative to the service
+     * directory. Named sites keep their artifacts in a subdirectory.
+     */
+    #artifactPath(artifact: string): string {
+        const name = this.#currentSite().name;
+        return name === undefined
+            ? artifact
+            : path.posix.join(
+                  path.posix.dirname(artifact),
+                  name,
+                  path.posix.basename(artifact),
+              );
+    }
+
     async #hasFile(name: string): Promise<boolean> {
         try {
             const stat = await fs.stat(name);
@@ -167,51 +541,232 @@ class FrontendPlugin implements Plugin {
         }
     }
 
-    #hasSSR(framework: Framework | null): boolean {
-        switch (framework) {
-            case "nuxt":
-            case "nitro":
-            case "tanstack-start":
-                return true;
-            case "vite":
-            case null:
-                return false;
-            default:
-                throw new Error(
-                    `Don't know whether framework '${framework}' has SSR.`,
-                );
+    /**
+     * Framework adapters, from custom.frontend.adapters and built in. Custom
+     * adapters come first, so they're detected before the built-in ones, and
+     * replace those with the same name.
+     */
+    async frameworkAdapters(): Promise<FrameworkAdapter[]> {
+        const site = this.#currentSite();
+        site.frameworkAdaptersPromise ??= loadFrameworkAdapters(
+            [site.config.adapters ?? []].flat(),
+            this.serverless.serviceDir,
+        ).then((adapters) => [...adapters, ...BuiltinFrameworks]);
+        return site.frameworkAdaptersPromise;
+    }
+
+    async #frameworkAdapter(): Promise<FrameworkAdapter | undefined> {
+        const framework = await this.detectFramework();
+        if (framework === null) {
+            return undefined;
         }
+        const adapter = (await this.frameworkAdapters()).find(
+            (adapter) => adapter.name === framework,
+        );
+        if (adapter === undefined) {
+            throw new Error(
+                `Unknown framework '${framework}', add an adapter for it to custom.frontend.adapters`,
+            );
+        }
+        await adapter.configure?.(this.#frameworkContext());
+        return adapter;
     }
 
-    async detectFramework(): Promise<Framework | null> {
-        if (this.customConfig.framework !== undefined) {
-            return this.customConfig.framework;
+    /**
+     * Directory of the frontend, which may differ from the service directory,
+     * e.g. in a monorepo.
+     */
+    #root(): string {
+        return path.resolve(
+            this.serverless.serviceDir,
+            this.customConfig.root ?? ".",
+        );
+    }
+
+    #frameworkContext(): FrameworkContext {
+        const root = this.#root();
+        return {
+            root,
+            config: this.customConfig,
+            log: this.log,
+            hasFile: (file) => this.#hasFile(path.resolve(root, file)),
+            readJson: (file) => this.#readLocalJson(file),
+            readFile: (file) => this.#readLocalFile(file),
+            listFiles: (directory) =>
+                listFiles(path.resolve(root, directory), (file) =>
+                    this.#skipFile(file),
+                ),
+            packageJson: () => this.#packageJson(),
+            runScriptCommand: (script) => this.packageManagerRunCommand(script),
+            execCommand: (command, ...args) =>
+                this.packageManagerExecCommand(command, ...args),
+            assetPrefix: () => this.assetPrefix(),
+            addServerFunction: (handler) => this.#addServerFunction(handler),
+            addFunction: (name, definition) =>
+                this.#addFunction(name, definition),
+            functionDefinition: (name) =>
+                this.serverless.service.functions[this.#functionKey(name)] as
+                    | FrameworkFunction
+                    | undefined,
+            packageDirectory: (artifact, directory) =>
+                this.packageFunction(artifact, path.resolve(root, directory)),
+            packageNodeServer: (serverDirectory, shim) =>
+                this.#packageNodeServer(serverDirectory, shim),
+            serverFunctionRole: () => this.#serverFunctionRole(),
+            stackResourceId: (logicalId) =>
+                this.getStackResourceId(this.#logicalId(logicalId)),
+            uploadNewFiles: (directory, bucketName, prefix) =>
+                this.#uploadNewFiles(
+                    path.resolve(root, directory),
+                    bucketName,
+                    prefix,
+                ),
+            emptyBucket: (bucketName) => this.deleteObjects(bucketName),
+            request: (service, method, params) =>
+                this.provider.request(service, method, params),
+        };
+    }
+
+    /**
+     * The SSR function has the default role of the functions, which is
+     * only part of the stack without a custom role in provider.iam.role.
+     */
+    #serverFunctionRole(): string | undefined {
+        const provider = this.serverless.service.provider as {
+            role?: unknown;
+            iam?: { role?: unknown };
+        };
+        const role = provider.iam?.role ?? provider.role;
+        if (
+            typeof role === "string" ||
+            (typeof role === "object" &&
+                role != null &&
+                Object.keys(role).some(
+                    (key) => key === "Ref" || key.startsWith("Fn::"),
+                ))
+        ) {
+            return undefined;
+        }
+        return this.provider.naming.getRoleLogicalId();
+    }
+
+    /**
+     * Uploads the files of the directory which aren't in the bucket yet,
+     * leaving the objects in the bucket as they are. A missing directory
+     * has no files.
+     */
+    async #uploadNewFiles(
+        directory: string,
+        bucketName: string,
+        prefix: string,
+    ): Promise<number> {
+        const chunkSize = this.#multipartChunkSize();
+        let localFiles: LocalAsset[];
+        try {
+            localFiles = await listLocalAssets(directory, chunkSize);
+        } catch (err) {
+            if (!String(err).includes("ENOENT")) {
+                throw err;
+            }
+            return 0;
+        }
+        const existingKeys = new Set(
+            (await this.listObjectsV2(bucketName, prefix)).map(
+                (object) => object.Key,
+            ),
+        );
+        const files = localFiles.filter(
+            (file) => !existingKeys.has(prefix + file.key),
+        );
+        const s3 = this.#s3Client();
+        await mapConcurrently(
+            files,
+            this.customConfig.uploadConcurrency ?? 8,
+            (file) =>
+                uploadAsset(
+                    s3,
+                    file,
+                    { Bucket: bucketName, Key: prefix + file.key },
+                    chunkSize,
+                ),
+        );
+        return files.length;
+    }
+
+    async #readLocalFile(file: string): Promise<string | undefined> {
+        try {
+            return await fs.readFile(path.resolve(this.#root(), file), "utf8");
+        } catch (err) {
+            this.log.error(`Error reading ${file}: ${err}`);
+            return undefined;
         }
+    }
 
-        const hasNuxtConfig = await this.#hasFile("nuxt.config.ts");
+    async #readLocalJson<T>(file: string): Promise<T | undefined> {
+        try {
+            return JSON.parse(
+                await fs.readFile(path.resolve(this.#root(), file), "utf8"),
+            );
+        } catch (err) {
+            this.log.error(`Error reading ${file}: ${err}`);
+            return undefined;
+        }
+    }
 
+    async #packageJson(): Promise<PackageJson> {
         const packageJson = JSON.parse(
-            await fs.readFile("package.json", "utf8"),
+            await fs.readFile(path.join(this.#root(), "package.json"), "utf8"),
+        );
+        return {
+            ...packageJson,
+            dependencies: packageJson.dependencies ?? {},
+            devDependencies: packageJson.devDependencies ?? {},
+        };
+    }
+
+    async #hasSSR(): Promise<boolean> {
+        return (await this.#siteMode()) === "ssr";
+    }
+
+    /**
+     * How the site is served: by a server function with static assets,
+     * as a single page app, or as static pages.
+     */
+    async #siteMode(): Promise<SiteMode | null> {
+        const adapter = await this.#frameworkAdapter();
+        return adapter?.siteMode(this.#frameworkContext()) ?? null;
+    }
+
+    /**
+     * Routes of the pages prerendered at build time, which are served from
+     * the site bucket instead of the SSR function.
+     */
+    async #prerenderedRoutes(): Promise<Record<string, string>> {
+        const adapter = await this.#frameworkAdapter();
+        return prerenderedRoutes(
+            (await adapter?.prerenderedPages?.(this.#frameworkContext())) ?? [],
         );
+    }
+
+    async detectFramework(): Promise<string | null> {
+        if (this.customConfig.framework !== undefined) {
+            return this.customConfig.framework;
+        }
+
+        const packageJson = await this.#packageJson();
         this.log.info(JSON.stringify(packageJson, null, 2));
-        if ("@tanstack/react-start" in packageJson.dependencies) {
-            this.log.info("Detected TanStack Start");
-            this.customConfig.framework = "tanstack-start";
-        } else if ("nuxt" in packageJson.dependencies || hasNuxtConfig) {
-            this.log.info("Detected Nuxt");
-            this.customConfig.framework = "nuxt";
-        } else if ("nitro" in packageJson.dependencies) {
-            this.log.info("Detected Nitro-based frontend");
-            this.customConfig.framework = "nitro";
-        } else if (
-            "vite" in packageJson.dependencies ||
-            "vite" in packageJson.devDependencies
-        ) {
-            this.log.info("Detected Vite-based frontend");
-            this.customConfig.framework = "vite";
-        } else {
-            this.customConfig.framework = null;
+        const context = this.#frameworkContext();
+        let framework: string | null = null;
+        for (const adapter of await this.frameworkAdapters()) {
+            if (await adapter.detect?.(packageJson, context)) {
+                this.log.info(
+                    `Detected ${adapter.displayName ?? adapter.name}`,
+                );
+                framework = adapter.name;
+                break;
+            }
         }
+        this.customConfig.framework = framework;
 
         return this.customConfig.framework;
     }
@@ -251,6 +806,23 @@ class FrontendPlugin implements Plugin {
         }
     }
 
+    async getStackResourceId(logicalId: string): Promise<string | undefined> {
+        const stackName = this.provider.naming.getStackName();
+        const result: {
+            StackResources: Array<{
+                LogicalResourceId: string;
+                PhysicalResourceId: string;
+            }>;
+        } = await this.provider.request(
+            "CloudFormation",
+            "describeStackResources",
+            { StackName: stackName },
+        );
+        return result.StackResources.find(
+            (resource) => resource.LogicalResourceId === logicalId,
+        )?.PhysicalResourceId;
+    }
+
     addResource(logicalId: string, config: Aws.CloudFormationResource) {
         this.serverless.service.provider.compiledCloudFormationTemplate.Resources[
             logicalId
@@ -271,13 +843,21 @@ class FrontendPlugin implements Plugin {
             return;
         }
         const outputs = await this.getStackOutputs();
-        if (outputs.SiteURL !== undefined) {
-            this.serverless.serviceOutputs.set("site", outputs.SiteURL);
+        const url = outputs[this.#logicalId("SiteURL")];
+        if (url !== undefined) {
+            const name = this.#currentSite().name;
+            this.serverless.serviceOutputs.set(
+                name === undefined ? "site" : `site (${name})`,
+                url,
+            );
         }
     }
 
     packageManagerRunCommand(script: string) {
-        const packageManager = identifyPackageManager(true);
+        const packageManager = identifyPackageManager(
+            true,
+            workspaceRoot(this.#root()),
+        );
         switch (packageManager) {
             case "yarn-berry":
             case "yarn-classic":
@@ -295,77 +875,62 @@ class FrontendPlugin implements Plugin {
         }
     }
 
+    packageManagerExecCommand(command: string, ...args: string[]) {
+        const packageManager = identifyPackageManager(
+            true,
+            workspaceRoot(this.#root()),
+        );
+        switch (packageManager) {
+            case "yarn-berry":
+            case "yarn-classic":
+                return ["yarn", command, ...args];
+            case "pnpm":
+                return ["pnpm", "exec", command, ...args];
+            case "npm":
+                return ["npx", "--no-install", command, ...args];
+            case "bun":
+                return ["bunx", command, ...args];
+            case "unknown":
+                throw new Error(
+                    "Unknown package manager, specify build command manually",
+                );
+        }
+    }
+
     async buildCommand(): Promise<string | string[]> {
         if (this.customConfig.buildCommand !== undefined) {
             return this.customConfig.buildCommand;
         }
 
-        const framework = await this.detectFramework();
-
-        switch (framework) {
-            case "tanstack-start":
-            case "nuxt":
-            case "nitro":
-            case "vite":
-                return this.packageManagerRunCommand("build");
+        const adapter = await this.#frameworkAdapter();
+        if (adapter === undefined) {
+            throw new Error(
+                "Unknown build command without a framework, specify build command manually",
+            );
         }
-
-        throw new Error(
-            `Unknown build command for ${framework}, specify build command manually`,
+        return (
+            adapter.buildCommand?.(this.#frameworkContext()) ??
+            this.packageManagerRunCommand("build")
         );
     }
 
     async frameworkBuildEnvironment(): Promise<Record<string, string>> {
-        const framework = await this.detectFramework();
-
-        switch (framework) {
-            case "tanstack-start":
-            case "nuxt":
-            case "nitro":
-                return {
-                    NITRO_PRESET: "aws-lambda",
-                    SERVER_PRESET: "aws-lambda",
-                };
-        }
-
-        return {};
+        const adapter = await this.#frameworkAdapter();
+        return adapter?.buildEnvironment?.(this.#frameworkContext()) ?? {};
     }
 
     async #isStreaming(): Promise<boolean> {
-        switch (await this.detectFramework()) {
-            case "nitro":
-            case "nuxt":
-            case "tanstack-start":
-                {
-                    try {
-                        const nitroJson = JSON.parse(
-                            await fs.readFile(".output/nitro.json", {
-                                encoding: "utf-8",
-                            }),
-                        );
-                        const streaming: boolean | undefined =
-                            nitroJson?.config?.awsLambda?.streaming;
-                        if (streaming == null) {
-                            this.log.error(
-                                "Unable to detect streaming support from .output/nitro.json, assuming disabled.",
-                            );
-                        }
-                        return streaming ?? false;
-                    } catch (e) {
-                        this.log.error(
-                            `Error reading .output/nitro.json: ${e}`,
-                        );
-                        this.log.error(
-                            "Unable to detect streaming support from .output/nitro.json, assuming disabled.",
-                        );
-                    }
-                }
-                break;
-        }
-        return false;
+        const adapter = await this.#frameworkAdapter();
+        return (await adapter?.streaming?.(this.#frameworkContext())) ?? false;
     }
 
     async build() {
+        const adapter = await this.#frameworkAdapter();
+        if (this.customConfig.streaming && adapter?.canStream === false) {
+            throw new this.serverless.classes.Error(
+                `Streaming isn't supported for ${adapter.displayName ?? adapter.name}, remove streaming: true from custom.frontend`,
+            );
+        }
         const buildProgress = this.progress.get("build");
         buildProgress.update("Building frontend");
         let command = await this.buildCommand();
@@ -375,7 +940,8 @@ class FrontendPlugin implements Plugin {
         } else {
             buildProgress.update(`Building frontend: ${command.join(" ")}`);
         }
-        const cmd = command.shift();
+        // The configured command may be shared by several sites
+        const [cmd, ...args] = command;
         if (cmd === undefined) {
             throw new Error("No build command given");
         }
@@ -385,7 +951,9 @@ class FrontendPlugin implements Plugin {
             ...(await this.frameworkBuildEnvironment()),
             ...customEnv,
         };
-        const buildProcess = new Process(spawn(cmd, command, { env }));
+        const buildProcess = new Process(
+            spawn(cmd, args, { cwd: this.#root(), env }),
+        );
         const exitCode = await buildProcess.exitCode;
         buildProgress.remove();
         if (exitCode !== 0) {
@@ -402,7 +970,7 @@ class FrontendPlugin implements Plugin {
         }
         if (this.customConfig.streaming ?? streaming) {
             const server: FunctionDefinition & FunctionDefinitionUrl =
-                this.serverless.service.functions.server;
+                this.serverless.service.functions[this.#functionKey("server")];
             server.url = {
                 invokeMode: "RESPONSE_STREAM",
             };
@@ -470,12 +1038,30 @@ class FrontendPlugin implements Plugin {
                 SslSupportMethod: "sni-only",
             };
         }
+        const webACLId = this.#addWebACL();
+        if (webACLId !== undefined) {
+            distributionConfig.WebACLId = webACLId;
+        }
 
-        const framework = await this.detectFramework();
-        switch (framework) {
-            case "nuxt":
-            case "nitro":
-            case "tanstack-start": {
+        const releaseId = await this.releaseId();
+        const staticFilesOrigin: CloudFrontOrigin =
+            releaseId === undefined
+                ? StandardOrigins.staticFiles
+                : {
+                      ...StandardOrigins.staticFiles,
+                      OriginPath: releaseOriginPath(releaseId),
+                  };
+        const staticFilesFallbackOrigin: CloudFrontOrigin = {
+            ...StandardOrigins.staticFilesFallback,
+            OriginPath: `${staticFilesOrigin.OriginPath ?? ""}${StandardOrigins.staticFilesFallback.OriginPath}`,
+        };
+
+        const siteMode = await this.#siteMode();
+        const clientDirectory = await this.#assetDirectory();
+        let prerendered: Record<string, string> = {};
+        const prerenderedBehaviors: CloudFrontCacheBehavior[] = [];
+        switch (siteMode) {
+            case "ssr": {
                 const serverFunction: CloudFrontCustomOrigin = JSON.parse(
                     JSON.stringify(StandardOrigins.serverFunction),
                 );
@@ -484,18 +1070,18 @@ class FrontendPlugin implements Plugin {
                         this.customConfig.ssrTimeout;
                 }
                 distributionConfig.Origins = [
-                    StandardOrigins.staticFiles,
+                    staticFilesOrigin,
                     serverFunction,
                 ];
                 distributionConfig.OriginGroups = cloudfrontArray([
                     StandardOriginGroups.staticFilesSSR,
                 ]);
-                distributionConfig.DefaultCacheBehavior =
-                    StandardCacheBehaviors.serverFunction;
+                distributionConfig.DefaultCacheBehavior = {
+                    ...StandardCacheBehaviors.serverFunction,
+                };
                 distributionConfig.CacheBehaviors = [];
-                const publicDirectory = ".output/public";
                 const files = await readdir(
-                    path.join(this.serverless.serviceDir, publicDirectory),
+                    path.join(this.#root(), clientDirectory),
                     {
                         withFileTypes: true,
                     },
@@ -509,21 +1095,81 @@ class FrontendPlugin implements Plugin {
                         });
                     }
                 }
+                const { "/": rootPage, ...pages } =
+                    await this.#prerenderedRoutes();
+                if (rootPage !== undefined) {
+                    distributionConfig.DefaultRootObject = rootPage;
+                }
+                // Top-level pages, like /about, would otherwise only match
+                // the default behavior
+                prerendered = pages;
+                for (const route of topLevelRoutes(prerendered)) {
+                    prerenderedBehaviors.push({
+                        PathPattern: route.substring(1),
+                        ...StandardCacheBehaviors.staticFilesSSR,
+                    });
+                }
+                distributionConfig.CacheBehaviors.push(...prerenderedBehaviors);
                 break;
             }
-            case "vite":
+            case "spa":
                 distributionConfig.DefaultRootObject = "index.html";
                 distributionConfig.Origins = [
-                    StandardOrigins.staticFiles,
-                    StandardOrigins.staticFilesFallback,
+                    staticFilesOrigin,
+                    staticFilesFallbackOrigin,
                 ];
                 distributionConfig.OriginGroups = cloudfrontArray([
                     StandardOriginGroups.staticFilesSPA,
                 ]);
-                distributionConfig.DefaultCacheBehavior =
-                    StandardCacheBehaviors.staticFilesSPA;
+                distributionConfig.DefaultCacheBehavior = {
+                    ...StandardCacheBehaviors.staticFilesSPA,
+                };
+                break;
+            case "static": {
+                distributionConfig.DefaultRootObject = "index.html";
+                distributionConfig.Origins = [staticFilesOrigin];
+                distributionConfig.DefaultCacheBehavior = {
+                    ...StandardCacheBehaviors.staticFiles,
+                };
+                if (
+                    await this.#hasFile(
+                        path.join(this.#root(), clientDirectory, "404.html"),
+                    )
+                ) {
+                    distributionConfig.CustomErrorResponses = [403, 404].map(
+                        (errorCode) => ({
+                            ErrorCode: errorCode,
+                            ResponseCode: 404,
+                            ResponsePagePath: "/404.html",
+                        }),
+                    );
+                }
                 break;
+            }
+        }
+        const routes = (await this.#frameworkAdapter())?.routes?.(
+            this.#frameworkContext(),
+        );
+        if (routes !== undefined) {
+            for (const [logicalId, resource] of Object.entries(
+                routes.resources ?? {},
+            )) {
+                this.addResource(logicalId, resource);
+            }
+            distributionConfig.Origins = [
+                ...(distributionConfig.Origins ?? []),
+                ...(routes.origins ?? []),
+            ];
+            // Before the static files, which may cover the same paths
+            distributionConfig.CacheBehaviors = [
+                ...(routes.cacheBehaviors ?? []),
+                ...(distributionConfig.CacheBehaviors ?? []),
+            ];
         }
+        let redirects =
+            siteMode === "ssr"
+                ? await this.#applyRouteRules(distributionConfig)
+                : [];
         {
             const cloudfrontConfig = this.customConfig.cloudfront;
             if (cloudfrontConfig != null) {
@@ -546,7 +1192,52 @@ class FrontendPlugin implements Plugin {
                 }
             }
         }
-        if (this.#hasSSR(framework) || this.customConfig.ssr) {
+        if (
+            prerenderedBehaviors.length > 0 &&
+            (distributionConfig.CacheBehaviors ?? []).length > MaxCacheBehaviors
+        ) {
+            this.log.warning(
+                `More than ${MaxCacheBehaviors} cache behaviors, top-level prerendered pages are served by the SSR function.`,
+            );
+            const removed = new Set<DefaultCacheBehavior>(prerenderedBehaviors);
+            distributionConfig.CacheBehaviors = (
+                distributionConfig.CacheBehaviors ?? []
+            ).filter((cacheBehavior) => !removed.has(cacheBehavior));
+            redirects = redirects.filter(
+                ([cacheBehavior]) => !removed.has(cacheBehavior),
+            );
+        }
+        const cacheBehaviors = [
+            distributionConfig.DefaultCacheBehavior,
+            ...(distributionConfig.CacheBehaviors ?? []),
+        ].filter((x) => x != null);
+        const viewerRequestSnippets = new Map<
+            DefaultCacheBehavior,
+            ViewerRequestSnippet[]
+        >();
+        const addSnippet = (
+            cacheBehavior: DefaultCacheBehavior,
+            snippet: ViewerRequestSnippet,
+        ) => {
+            viewerRequestSnippets.set(cacheBehavior, [
+                ...(viewerRequestSnippets.get(cacheBehavior) ?? []),
+                snippet,
+            ]);
+        };
+        const basicAuth = this.#basicAuthSnippet();
+        if (basicAuth !== undefined) {
+            for (const cacheBehavior of cacheBehaviors) {
+                addSnippet(cacheBehavior, basicAuth);
+            }
+        }
+        const redirectsAndRewrites = await this.#redirectsSnippet();
+        if (redirectsAndRewrites !== undefined) {
+            // Before the other snippets, which apply to the rewritten URI
+            for (const cacheBehavior of cacheBehaviors) {
+                addSnippet(cacheBehavior, redirectsAndRewrites);
+            }
+        }
+        if (siteMode === "ssr" || this.customConfig.ssr) {
             this.addResource("SiteSSRCachePolicy", {
                 Type: "AWS::CloudFront::CachePolicy",
                 Properties: {
@@ -554,37 +1245,74 @@ class FrontendPlugin implements Plugin {
                 },
             });
             if (this.customConfig.ssrForwardHost ?? true) {
-                this.addResource("SSRForwardHost", {
-                    Type: "AWS::CloudFront::Function",
-                    Properties: CloudFrontFunctions.forwardHostHeader,
-                });
-                [
-                    distributionConfig.DefaultCacheBehavior,
-                    ...(distributionConfig.CacheBehaviors ?? []),
-                ]
-                    .filter((x) => x != null)
-                    .forEach((cacheBehavior) => {
-                        if (
+                cacheBehaviors
+                    .filter(
+                        (cacheBehavior) =>
                             cacheBehavior.TargetOriginId ===
                                 StandardOrigins.serverFunction.Id ||
                             cacheBehavior.TargetOriginId ===
-                                StandardOriginGroups.staticFilesSSR.Id
-                        ) {
-                            cacheBehavior.FunctionAssociations = [
-                                {
-                                    EventType: "viewer-request",
-                                    FunctionARN: {
-                                        "Fn::GetAtt": [
-                                            "SSRForwardHost",
-                                            "FunctionARN",
-                                        ],
-                                    },
-                                },
-                            ];
-                        }
+                                StandardOriginGroups.staticFilesSSR.Id,
+                    )
+                    .forEach((cacheBehavior) => {
+                        addSnippet(
+                            cacheBehavior,
+                            ViewerRequestSnippets.forwardHostHeader,
+                        );
+                    });
+            }
+        }
+        for (const [cacheBehavior, snippet] of redirects) {
+            addSnippet(cacheBehavior, snippet);
+        }
+        if (Object.keys(prerendered).length > 0) {
+            const snippet = ViewerRequestSnippets.prerenderedPages(prerendered);
+            if (snippet.code.length > MaxViewerRequestSnippetSize) {
+                this.log.warning(
+                    "Too many prerendered pages to route in a CloudFront Function, pages without trailing slash are served by the SSR function.",
+                );
+            } else {
+                cacheBehaviors
+                    .filter(
+                        (cacheBehavior) =>
+                            cacheBehavior.TargetOriginId ===
+                            StandardOriginGroups.staticFilesSSR.Id,
+                    )
+                    .forEach((cacheBehavior) => {
+                        addSnippet(cacheBehavior, snippet);
                     });
             }
         }
+        if (siteMode === "static") {
+            addSnippet(
+                distributionConfig.DefaultCacheBehavior as DefaultCacheBehavior,
+                ViewerRequestSnippets.directoryIndex,
+            );
+        }
+        const encodings = this.#compressionEncodings();
+        if (encodings.length > 0) {
+            const precompressed = ViewerRequestSnippets.precompressed(
+                CompressibleExtensions,
+                encodings.map((encoding) => ({
+                    token: encoding,
+                    extension: EncodingExtensions[encoding],
+                })),
+            );
+            cacheBehaviors
+                .filter(
+                    (cacheBehavior) =>
+                        cacheBehavior.TargetOriginId ===
+                            StandardOrigins.staticFiles.Id ||
+                        cacheBehavior.TargetOriginId ===
+                            StandardOriginGroups.staticFilesSPA.Id ||
+                        cacheBehavior.TargetOriginId ===
+                            StandardOriginGroups.staticFilesSSR.Id,
+                )
+                .forEach((cacheBehavior) => {
+                    addSnippet(cacheBehavior, precompressed);
+                });
+        }
+        this.#addViewerRequestFunctions(viewerRequestSnippets);
+        this.#addResponseHeadersPolicies(cacheBehaviors);
         this.addResource("SiteDistribution", {
             Type: "AWS::CloudFront::Distribution",
             Properties: {
@@ -602,231 +1330,1857 @@ class FrontendPlugin implements Plugin {
         });
     }
 
-    async addResources() {
-        await this.addBucketResources();
-        await this.addCloudFrontResources();
-    }
-
-    async addNitroFunction() {
-        const service = this.serverless.service.service;
-        const stage = this.provider.getStage();
-        const functions = {
-            server: {
-                name: `${service}-${stage}-server`,
-                handler: "server/index.handler",
-                timeout: this.customConfig.ssrTimeout ?? 30,
-                memorySize: this.customConfig.ssrMemorySize ?? 1024,
-                runtime: this.customConfig.ssrRuntime,
-                architecture: this.customConfig.ssrArchitecture,
-                provisionedConcurrency:
-                    this.customConfig.ssrProvisionedConcurrency,
-                reservedConcurrency: this.customConfig.ssrReservedConcurrency,
-                tracing: this.customConfig.ssrTracing,
-                events: [],
-                url: true,
-                environment: this.customConfig.ssrEnvironment,
-                package: {
-                    individually: true,
-                    artifact: path.join(
-                        this.serverless.serviceDir,
-                        ".serverless/frontend-function.zip",
-                    ),
-                },
-            },
-        };
-
-        this.serverless.service.functions.server = functions.server;
-    }
-
-    async addFunctions() {
-        switch (await this.detectFramework()) {
-            case "tanstack-start":
-            case "nuxt":
-            case "nitro":
-                await this.addNitroFunction();
+    /**
+     * Web ACL of the distribution: the configured ARN, or the ARN of the web
+     * ACL created for the site.
+     */
+    #addWebACL(): CfString | undefined {
+        const waf = this.customConfig.waf;
+        if (waf === undefined) {
+            return undefined;
+        }
+        if (typeof waf === "string") {
+            return waf;
+        }
+        // CloudFront only uses web ACLs from us-east-1
+        if (this.provider.getRegion() !== "us-east-1") {
+            throw new this.serverless.classes.Error(
+                "Web ACLs for CloudFront can only be created in us-east-1, create it there and set custom.frontend.waf to its ARN",
+            );
+        }
+        for (const [logicalId, resource] of Object.entries(wafResources(waf))) {
+            this.addResource(logicalId, resource);
         }
+        return { "Fn::GetAtt": ["SiteWebACL", "Arn"] };
     }
 
-    async packageFunction(
-        file: string,
+    /**
+     * Applies the route rules of the framework to the cache behaviors, with
+     * cache policies for their TTLs and response headers policies. Returns
+     * the redirects, which are handled by viewer-request functions.
+     */
+    async #applyRouteRules(
+        distributionConfig: Partial<CloudFrontDistributionConfig>,
+    ): Promise<Array<[DefaultCacheBehavior, ViewerRequestSnippet]>> {
+        const adapter = await this.#frameworkAdapter();
+        const rules =
+            (await adapter?.routeRules?.(this.#frameworkContext())) ?? {};
+        const existing = distributionConfig.CacheBehaviors ?? [];
+        const added: CloudFrontCacheBehavior[] = [];
+        const redirects: Array<[DefaultCacheBehavior, ViewerRequestSnippet]> =
+            [];
+        for (const { route, rule } of resolveRouteRules(rules)) {
+            const ttl = routeCacheTTL(rule);
+            if (
+                ttl === undefined &&
+                rule.headers === undefined &&
+                rule.redirect === undefined &&
+                !rule.prerender
+            ) {
+                continue;
+            }
+            let cacheBehavior: DefaultCacheBehavior | undefined;
+            if (route === "/**") {
+                cacheBehavior = distributionConfig.DefaultCacheBehavior;
+            } else {
+                const pathPattern = routePathPattern(route);
+                cacheBehavior = existing.find(
+                    (behavior) => behavior.PathPattern === pathPattern,
+                );
+                if (cacheBehavior === undefined) {
+                    // Prerendered routes are served from S3, like the static files
+                    const behavior: CloudFrontCacheBehavior = {
+                        PathPattern: pathPattern,
+                        ...(rule.prerender
+                            ? StandardCacheBehaviors.staticFilesSSR
+                            : StandardCacheBehaviors.serverFunction),
+                    };
+                    added.push(behavior);
+                    cacheBehavior = behavior;
+                }
+            }
+            if (cacheBehavior === undefined) {
+                continue;
+            }
+            if (
+                ttl !== undefined &&
+                cacheBehavior.TargetOriginId ===
+                    StandardOrigins.serverFunction.Id
+            ) {
+                if (ttl === false) {
+                    cacheBehavior.CachePolicyId = CachePolicies.CachingDisabled;
+                } else {
+                    const logicalId = `SiteRouteCachePolicy${ttl}`;
+                    this.addResource(logicalId, {
+                        Type: "AWS::CloudFront::CachePolicy",
+                        Properties: {
+                            CachePolicyConfig: routeCachePolicyConfig(ttl),
+                        },
+                    });
+                    cacheBehavior.CachePolicyId = { Ref: logicalId };
+                }
+            }
+            if (rule.headers !== undefined) {
+                const policy = routeHeadersPolicy(
+                    rule.headers,
+                    this.#responseHeadersPolicy(cacheBehavior)?.config,
+                );
+                this.addResource(policy.logicalId, {
+                    Type: "AWS::CloudFront::ResponseHeadersPolicy",
+                    Properties: policy.properties,
+                });
+                cacheBehavior.ResponseHeadersPolicyId = {
+                    Ref: policy.logicalId,
+                };
+            }
+            if (rule.redirect !== undefined) {
+                redirects.push([
+                    cacheBehavior,
+                    redirectSnippet(route, rule.redirect),
+                ]);
+            }
+        }
+        // Before the other behaviors, which may cover the same paths
+        distributionConfig.CacheBehaviors = [...added, ...existing];
+        return redirects;
+    }
+
+    // Password protection, for the stages it is configured for
+    #basicAuthSnippet(): ViewerRequestSnippet | undefined {
+        const { basicAuth } = this.customConfig;
+        if (
+            !basicAuth ||
+            (basicAuth.stages !== undefined &&
+                !basicAuth.stages.includes(this.provider.getStage()))
+        ) {
+            return undefined;
+        }
+        if (!basicAuth.username || !basicAuth.password) {
+            throw new this.serverless.classes.Error(
+                "Both username and password are required in custom.frontend.basicAuth",
+            );
+        }
+        if (basicAuth.username.includes(":")) {
+            throw new this.serverless.classes.Error(
+                "The username in custom.frontend.basicAuth can't contain a colon",
+            );
+        }
+        return ViewerRequestSnippets.basicAuth(
+            basicAuth.username,
+            String(basicAuth.password),
+        );
+    }
+
+    /**
+     * Viewer-request snippet for the configured redirects and rewrites. With
+     * redirectStore, exact redirects are imported into a KeyValueStore from
+     * the deployment bucket instead of being part of the code.
+     */
+    async #redirectsSnippet(): Promise<ViewerRequestSnippet | undefined> {
+        const {
+            redirects = [],
+            rewrites = [],
+            redirectStore = false,
+        } = this.customConfig;
+        const storeFile = this.#redirectStoreFile();
+        await fs.rm(storeFile, { force: true });
+        if (redirects.length === 0 && rewrites.length === 0) {
+            return undefined;
+        }
+        const stored = redirectStore
+            ? redirects.filter(isStorableRedirect)
+            : [];
+        let keyValueStore: CfString | undefined;
+        if (stored.length > 0) {
+            const data = redirectStoreData(stored);
+            await fs.mkdir(path.dirname(storeFile), { recursive: true });
+            await fs.writeFile(storeFile, data);
+            const deploymentBucket: string =
+                this.serverless.service.package.deploymentBucket ??
+                //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                "${ServerlessDeploymentBucket}";
+            this.addResource("SiteRedirectStore", {
+                Type: "AWS::CloudFront::KeyValueStore",
+                Properties: {
+                    // The import source only applies on creation, so changes replace the store
+                    Name: {
+                        "Fn::Sub": `\${AWS::StackName}-redirects-${redirectStoreHash(data)}`,
+                    },
+                    Comment: "Redirects",
+                    ImportSource: {
+                        SourceType: "S3",
+                        SourceArn: {
+                            "Fn::Sub": `arn:\${AWS::Partition}:s3:::${deploymentBucket}/${this.#redirectStoreKey(data)}`,
+                        },
+                    },
+                },
+            });
+            keyValueStore = { "Fn::GetAtt": ["SiteRedirectStore", "Arn"] };
+        }
+        const snippet = redirectsSnippet(
+            redirects.filter((rule) => !stored.includes(rule)),
+            rewrites,
+            keyValueStore,
+        );
+        if (snippet.code.length > MaxViewerRequestSnippetSize) {
+            throw new this.serverless.classes.Error(
+                "Too many redirects and rewrites for a CloudFront Function, set redirectStore to keep exact redirects in a KeyValueStore",
+            );
+        }
+        return snippet;
+    }
+
+    #redirectStoreFile(): string {
+        return path.join(
+            this.serverless.serviceDir,
+            ".serverless",
+            this.#artifactPath(RedirectStoreFile),
+        );
+    }
+
+    // Outside the artifact directory, as the store only imports it once
+    #redirectStoreKey(data: string): string {
+        return `${this.#servicePrefix()}/${this.#artifactPath(
+            RedirectStoreFile.replace(
+                /\.json$/,
+                `-${redirectStoreHash(data)}.json`,
+            ),
+        )}`;
+    }
+
+    // Prefix of the deployment bucket with the artifacts of all deployments
+    #servicePrefix(): string {
+        return [
+            this.provider.getDeploymentPrefix(),
+            this.serverless.service.service,
+            this.provider.getStage(),
+        ].join("/");
+    }
+
+    /**
+     * Policy with the response headers of custom.frontend.headers for the
+     * cache behavior, including the overrides for the SSR function or the
+     * static files. Without it the managed policy applies for headers: true.
+     */
+    #responseHeadersPolicy(
+        cacheBehavior: DefaultCacheBehavior,
+    ): { logicalId: string; config: ResponseHeadersPolicyConfig } | undefined {
+        const headers = this.customConfig.headers;
+        const kind =
+            cacheBehavior.TargetOriginId === StandardOrigins.serverFunction.Id
+                ? "ssr"
+                : [
+                        StandardOrigins.staticFiles.Id,
+                        StandardOriginGroups.staticFilesSPA.Id,
+                        StandardOriginGroups.staticFilesSSR.Id,
+                    ].includes(cacheBehavior.TargetOriginId)
+                  ? "assets"
+                  : undefined;
+        // S3 objects can't declare that their compressed variants depend on Accept-Encoding
+        const vary =
+            kind === "assets" && this.#compressionEncodings().length > 0;
+        if (typeof headers !== "object" && !vary) {
+            return undefined;
+        }
+        const { ssr, assets, ...defaults }: HeadersConfig =
+            typeof headers === "object"
+                ? headers
+                : headers === true
+                  ? ManagedSecurityHeaders
+                  : {};
+        const overrides =
+            kind === "ssr" ? ssr : kind === "assets" ? assets : undefined;
+        const specific = overrides !== undefined || vary;
+        const prefix = !specific ? "" : kind === "ssr" ? "SSR" : "Assets";
+        const responseHeaders = mergeResponseHeaders(defaults, overrides);
+        if (vary) {
+            responseHeaders.custom = {
+                ...responseHeaders.custom,
+                Vary: "Accept-Encoding",
+            };
+        }
+        const config = responseHeadersPolicyConfig(responseHeaders, {
+            "Fn::Sub": `\${AWS::StackName}-${specific ? `${kind}-` : ""}response-headers`,
+        });
+        return config === undefined
+            ? undefined
+            : { logicalId: `Site${prefix}ResponseHeadersPolicy`, config };
+    }
+
+    // Behaviors with a policy, like those of route rules, keep it
+    #addResponseHeadersPolicies(cacheBehaviors: DefaultCacheBehavior[]) {
+        for (const cacheBehavior of cacheBehaviors) {
+            if (cacheBehavior.ResponseHeadersPolicyId !== undefined) {
+                continue;
+            }
+            const policy = this.#responseHeadersPolicy(cacheBehavior);
+            if (policy !== undefined) {
+                this.addResource(policy.logicalId, {
+                    Type: "AWS::CloudFront::ResponseHeadersPolicy",
+                    Properties: { ResponseHeadersPolicyConfig: policy.config },
+                });
+                cacheBehavior.ResponseHeadersPolicyId = {
+                    Ref: policy.logicalId,
+                };
+            } else if (this.customConfig.headers === true) {
+                cacheBehavior.ResponseHeadersPolicyId =
+                    ResponseHeaderPolicy.SecurityHeadersPolicy;
+            }
+        }
+    }
+
+    #addViewerRequestFunctions(
+        viewerRequestSnippets: Map<
+            DefaultCacheBehavior,
+            ViewerRequestSnippet[]
+        >,
+    ) {
+        for (const [cacheBehavior, snippets] of viewerRequestSnippets) {
+            const viewerRequest = viewerRequestFunction(snippets);
+            const size = Buffer.byteLength(
+                viewerRequest.properties.FunctionCode,
+            );
+            if (size > MaxFunctionCodeSize) {
+                // The largest snippets, without which the function fits
+                const sizes = snippets
+                    .map((snippet) => ({
+                        name: snippet.name,
+                        size: Buffer.byteLength(snippet.code),
+                    }))
+                    .sort((a, b) => b.size - a.size);
+                let excess = size - MaxFunctionCodeSize;
+                const oversized = sizes.filter((snippet) => {
+                    const needed = excess > 0;
+                    excess -= snippet.size;
+                    return needed;
+                });
+                throw new this.serverless.classes.Error(
+                    `The viewer-request function of ${"PathPattern" in cacheBehavior ? cacheBehavior.PathPattern : "the default cache behavior"} is ${size} bytes, over the CloudFront Functions limit of ${MaxFunctionCodeSize} bytes, because of ${oversized.map((snippet) => `${snippet.name} (${snippet.size} bytes)`).join(", ")}. Set redirectStore to keep exact redirects in a KeyValueStore, or reduce the redirects, rewrites or prerendered pages`,
+                );
+            }
+            this.addResource(viewerRequest.logicalId, {
+                Type: "AWS::CloudFront::Function",
+                Properties: viewerRequest.properties,
+            });
+            cacheBehavior.FunctionAssociations = [
+                {
+                    EventType: "viewer-request",
+                    FunctionARN: {
+                        "Fn::GetAtt": [viewerRequest.logicalId, "FunctionARN"],
+                    },
+                },
+            ];
+        }
+    }
+
+    async addAssetDeploymentResources() {
+        const deploymentBucket: string | undefined =
+            this.serverless.service.package.deploymentBucket;
+        const artifactDirectory =
+            this.serverless.service.package.artifactDirectoryName;
+        const servicePrefix = this.#servicePrefix();
+        this.addResource("SiteAssetsRole", {
+            Type: "AWS::IAM::Role",
+            Properties: siteAssetsRole(
+                deploymentBucket === undefined
+                    ? {
+                          "Fn::Sub": `\${ServerlessDeploymentBucket.Arn}/${servicePrefix}/*`,
+                      }
+                    : {
+                          "Fn::Sub": `arn:\${AWS::Partition}:s3:::${deploymentBucket}/${servicePrefix}/*`,
+                      },
+            ),
+        });
+        this.addResource("SiteAssetsFunction", {
+            Type: "AWS::Lambda::Function",
+            Properties: {
+                Code: {
+                    S3Bucket: deploymentBucket ?? {
+                        Ref: "ServerlessDeploymentBucket",
+                    },
+                    S3Key: `${artifactDirectory}/${this.#artifactPath(SiteAssetsHandlerArtifact)}`,
+                },
+                Handler: "index.handler",
+                MemorySize: 512,
+                Role: { "Fn::GetAtt": ["SiteAssetsRole", "Arn"] },
+                Runtime: SiteAssetsHandlerRuntime,
+                Timeout: 900,
+            },
+        });
+        this.addResource("SiteAssets", {
+            Type: "Custom::SiteAssets",
+            Properties: {
+                ServiceToken: { "Fn::GetAtt": ["SiteAssetsFunction", "Arn"] },
+                SourceBucket: deploymentBucket ?? {
+                    Ref: "ServerlessDeploymentBucket",
+                },
+                SourceKey: `${artifactDirectory}/${this.#artifactPath(SiteAssetsArtifact)}`,
+                ListKey: `${artifactDirectory}/${this.#artifactPath(SiteAssetsListArtifact)}`,
+                DestinationBucket: { Ref: "SiteBucket" },
+                DestinationPrefix: await this.assetPrefix(),
+                ContentHash: contentHash(
+                    this.#currentSite().packagedAssets ??
+                        (await this.#localAssets()),
+                ),
+            },
+        });
+        // Only switch to the new release and SSR function once the assets are in place
+        const resources =
+            this.serverless.service.provider.compiledCloudFormationTemplate
+                .Resources;
+        for (const logicalId of [
+            "SiteDistribution",
+            this.provider.naming.getLambdaLogicalId(
+                this.#functionKey("server"),
+            ),
+        ]) {
+            const resource = resources[logicalId];
+            if (resource !== undefined) {
+                resource.DependsOn = [
+                    ...[resource.DependsOn ?? []].flat(),
+                    "SiteAssets",
+                ];
+            }
+        }
+    }
+
+    async addResources() {
+        const template =
+            this.serverless.service.provider.compiledCloudFormationTemplate;
+        const existingResources = new Set(Object.keys(template.Resources));
+        const existingOutputs = new Set(Object.keys(template.Outputs ?? {}));
+        await this.addBucketResources();
+        await this.addCloudFrontResources();
+        if (this.#deploysWithCustomResource()) {
+            await this.addAssetDeploymentResources();
+        }
+        const site = this.#currentSite();
+        if (site.name !== undefined) {
+            this.#renameSiteResources(site, existingResources, existingOutputs);
+        }
+        if (this.customConfig.versioned) {
+            await this.#writeReleaseSnapshot(
+                existingResources,
+                existingOutputs,
+            );
+        }
+    }
+
+    /**
+     * Records the resources and outputs of the site, with those Serverless
+     * compiled for its functions, to roll back to the release later. The
+     * functions then read their code from the site bucket. The asset
+     * deployment resources are left out, as the files of the release stay
+     * in the site bucket.
+     */
+    async #writeReleaseSnapshot(
+        existingResources: Set<string>,
+        existingOutputs: Set<string>,
+    ) {
+        const template =
+            this.serverless.service.provider.compiledCloudFormationTemplate;
+        const naming = this.provider.naming;
+        const releaseId = (await this.releaseId()) ?? "";
+        const excluded = [
+            "SiteAssets",
+            "SiteAssetsFunction",
+            "SiteAssetsRole",
+        ].map((logicalId) => this.#logicalId(logicalId));
+        const functionResources = new Set<string>();
+        const packages: ReleaseSnapshot["packages"] = {};
+        const code = new Map<string, object>();
+        for (const name of this.#currentSite().functions) {
+            const key = this.#functionKey(name);
+            const artifact =
+                this.serverless.service.functions[key].package?.artifact;
+            if (artifact !== undefined) {
+                packages[name] = path.relative(
+                    this.serverless.serviceDir,
+                    artifact,
+                );
+            }
+            functionResources.add(naming.getLogGroupLogicalId(key));
+            functionResources.add(naming.getLambdaLogicalId(key));
+            code.set(naming.getLambdaLogicalId(key), {
+                S3Bucket: { Ref: this.#logicalId("SiteBucket") },
+                S3Key: releasePackageKey(releaseId, name),
+            });
+        }
+        // Versions, URLs, permissions and event sources of the functions
+        let found = true;
+        while (found) {
+            found = false;
+            for (const [logicalId, resource] of Object.entries(
+                template.Resources,
+            )) {
+                if (
+                    existingResources.has(logicalId) &&
+                    !functionResources.has(logicalId) &&
+                    [...referencedLogicalIds(resource)].some((reference) =>
+                        functionResources.has(reference),
+                    )
+                ) {
+                    functionResources.add(logicalId);
+                    found = true;
+                }
+            }
+        }
+        const isSiteResource = (logicalId: string) =>
+            !excluded.includes(logicalId) &&
+            (!existingResources.has(logicalId) ||
+                functionResources.has(logicalId));
+        const resources: ReleaseSnapshot["resources"] = {};
+        for (const [logicalId, resource] of Object.entries(
+            structuredClone(template.Resources),
+        )) {
+            if (!isSiteResource(logicalId)) {
+                continue;
+            }
+            if (resource.DependsOn !== undefined) {
+                const dependsOn = [resource.DependsOn]
+                    .flat()
+                    .filter((dependency) => !excluded.includes(dependency));
+                resource.DependsOn =
+                    dependsOn.length === 0 ? undefined : dependsOn;
+            }
+            if (code.has(logicalId)) {
+                resource.Properties.Code = code.get(logicalId);
+            }
+            resources[logicalId] = resource;
+        }
+        const snapshot: ReleaseSnapshot = {
+            releaseId,
+            packages,
+            resources,
+            outputs: Object.fromEntries(
+                Object.entries(template.Outputs ?? {}).filter(
+                    ([logicalId, output]) =>
+                        !existingOutputs.has(logicalId) ||
+                        [...referencedLogicalIds(output)].some((reference) =>
+                            functionResources.has(reference),
+                        ),
+                ),
+            ),
+        };
+        const file = path.join(
+            this.serverless.serviceDir,
+            this.#artifactPath(ReleaseSnapshotFile),
+        );
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(snapshot));
+    }
+
+    /**
+     * Prefixes the logical IDs of the resources and outputs added for a
+     * named site, e.g. SiteBucket becomes AdminSiteBucket, and points their
+     * references to the resources of the site.
+     */
+    #renameSiteResources(
+        site: Site,
+        existingResources: Set<string>,
+        existingOutputs: Set<string>,
+    ) {
+        const template =
+            this.serverless.service.provider.compiledCloudFormationTemplate;
+        const naming = this.provider.naming;
+        const renames = new Map<string, string>();
+        for (const logicalId of Object.keys(template.Resources)) {
+            if (!existingResources.has(logicalId)) {
+                renames.set(logicalId, siteLogicalId(site.name, logicalId));
+            }
+        }
+        // Origins refer to the functions without the site prefix
+        const functionPrefixes: string[] = [];
+        for (const key of site.functions) {
+            const siteKey = siteFunctionKey(site.name, key);
+            renames.set(
+                naming.getLambdaLogicalId(key),
+                naming.getLambdaLogicalId(siteKey),
+            );
+            renames.set(
+                naming.getLambdaFunctionUrlLogicalId(key),
+                naming.getLambdaFunctionUrlLogicalId(siteKey),
+            );
+            functionPrefixes.push(naming.getNormalizedFunctionName(siteKey));
+        }
+        const stackNameSuffix = `-${site.name}`;
+        template.Resources = Object.fromEntries(
+            Object.entries(template.Resources).map(([logicalId, resource]) => {
+                if (!existingResources.has(logicalId)) {
+                    return [
+                        renames.get(logicalId),
+                        renameReferences(resource, renames, stackNameSuffix),
+                    ];
+                }
+                // The functions of the site refer to its bucket and roles
+                if (
+                    functionPrefixes.some((prefix) =>
+                        logicalId.startsWith(prefix),
+                    )
+                ) {
+                    return [logicalId, renameReferences(resource, renames)];
+                }
+                return [logicalId, resource];
+            }),
+        );
+        template.Outputs = Object.fromEntries(
+            Object.entries(template.Outputs ?? {}).map(([logicalId, output]) =>
+                existingOutputs.has(logicalId)
+                    ? [logicalId, output]
+                    : [
+                          siteLogicalId(site.name, logicalId),
+                          renameReferences(output, renames),
+                      ],
+            ),
+        );
+    }
+
+    #serverFunctionName(): string {
+        const service = this.serverless.service.service;
+        const stage = this.provider.getStage();
+        return `${service}-${stage}-${this.#functionKey("server")}`;
+    }
+
+    async addNitroFunction() {
+        this.#addServerFunction("server/index.handler");
+    }
+
+    #addServerFunction(handler: string) {
+        const key = this.#functionKey("server");
+        const functions = {
+            [key]: {
+                name: this.#serverFunctionName(),
+                handler,
+                timeout: this.customConfig.ssrTimeout ?? 30,
+                memorySize: this.customConfig.ssrMemorySize ?? 1024,
+                runtime: this.customConfig.ssrRuntime,
+                architecture: this.customConfig.ssrArchitecture,
+                provisionedConcurrency:
+                    this.customConfig.ssrProvisionedConcurrency,
+                reservedConcurrency: this.customConfig.ssrReservedConcurrency,
+                tracing: this.customConfig.ssrTracing,
+                events: [],
+                url: true,
+                environment: this.customConfig.ssrEnvironment,
+                package: {
+                    individually: true,
+                    artifact: path.join(
+                        this.serverless.serviceDir,
+                        this.#artifactPath(".serverless/frontend-function.zip"),
+                    ),
+                },
+            },
+        };
+
+        this.#currentSite().functions.add("server");
+        this.serverless.service.functions[key] = functions[key];
+    }
+
+    async addFunctions() {
+        const adapter = await this.#frameworkAdapter();
+        adapter?.addFunctions?.(this.#frameworkContext());
+    }
+
+    #addFunction(name: string, definition: FrameworkFunction) {
+        const service = this.serverless.service.service;
+        const stage = this.provider.getStage();
+        const key = this.#functionKey(name);
+        const functions = {
+            [key]: {
+                name: `${service}-${stage}-${key}`,
+                runtime: this.customConfig.ssrRuntime,
+                architecture: this.customConfig.ssrArchitecture,
+                ...definition,
+                package: {
+                    individually: true,
+                    ...definition.package,
+                    artifact:
+                        definition.package?.artifact === undefined
+                            ? undefined
+                            : path.resolve(
+                                  this.serverless.serviceDir,
+                                  this.#artifactPath(
+                                      definition.package.artifact,
+                                  ),
+                              ),
+                },
+            },
+        };
+
+        this.#currentSite().functions.add(name);
+        // Serverless accepts intrinsics in the environment, unlike its types
+        this.serverless.service.functions[key] = functions[
+            key
+        ] as FunctionDefinitionHandler;
+    }
+
+    async packageFunction(
+        file: string,
         cwd: string,
         pattern: string | string[] = ["*", "**/*"],
+    ) {
+        await this.#writeArchive(file, (archive) => {
+            for (const patternElement of pattern) {
+                archive.glob(patternElement, { cwd, dot: true });
+            }
+        });
+    }
+
+    async #writeArchive(
+        file: string,
+        addEntries: (archive: archiver.Archiver) => void,
     ) {
         const archive = archiver("zip", {});
-        const fd = await fs.open(
-            path.join(this.serverless.serviceDir, file),
-            "w",
+        const archivePath = path.join(
+            this.serverless.serviceDir,
+            this.#artifactPath(file),
+        );
+        await fs.mkdir(path.dirname(archivePath), { recursive: true });
+        const fd = await fs.open(archivePath, "w");
+        const output = fd.createWriteStream();
+        const promise = new Promise((resolve, reject) => {
+            output.on("close", () => {
+                resolve(true);
+            });
+            archive.on("error", reject);
+        });
+        archive.pipe(output);
+        addEntries(archive);
+        await archive.finalize();
+        await promise;
+    }
+
+    async packageFunctions() {
+        const packageProgress = this.progress.get("package-functions");
+        packageProgress.update("Packaging functions");
+        const adapter = await this.#frameworkAdapter();
+        await adapter?.packageFunctions?.(this.#frameworkContext());
+        if (this.#deploysWithCustomResource()) {
+            packageProgress.update("Packaging frontend assets");
+            await this.#packageAssets();
+        }
+        packageProgress.remove();
+    }
+
+    /**
+     * Packages a server build that isn't self-contained, along with the
+     * production dependencies it imports and a Lambda entry point.
+     */
+    async #packageNodeServer(serverDirectory: string, shim: string) {
+        const dependencies = await productionDependencies(this.#root());
+        await this.#writeArchive(
+            ".serverless/frontend-function.zip",
+            (archive) => {
+                archive.directory(
+                    path.join(this.#root(), serverDirectory),
+                    "server",
+                );
+                for (const dependency of dependencies) {
+                    archive.glob(
+                        "**/*",
+                        {
+                            cwd: dependency.directory,
+                            dot: true,
+                            // Nested dependencies are added separately
+                            ignore: ["node_modules/**"],
+                        },
+                        { prefix: dependency.packagePath },
+                    );
+                }
+                archive.append(shim, { name: LambdaShimFile });
+                // Server builds are ES modules, also when using the .js extension
+                archive.append(JSON.stringify({ type: "module" }), {
+                    name: "package.json",
+                });
+            },
+        );
+    }
+
+    #deploysWithCustomResource(): boolean {
+        return this.customConfig.assetDeployment === "custom-resource";
+    }
+
+    async #packageAssets() {
+        const assets = await this.#localAssets();
+        this.#currentSite().packagedAssets = assets;
+        const artifactPath = (artifact: string) =>
+            path.join(
+                this.serverless.serviceDir,
+                this.#artifactPath(path.join(".serverless", artifact)),
+            );
+        await fs.mkdir(path.dirname(artifactPath(SiteAssetsArtifact)), {
+            recursive: true,
+        });
+        const files = await writeSiteAssetsArtifact(
+            assets,
+            artifactPath(SiteAssetsArtifact),
+        );
+        await fs.writeFile(
+            artifactPath(SiteAssetsListArtifact),
+            JSON.stringify({ files }),
+        );
+        await this.#writeArchive(
+            path.join(".serverless", SiteAssetsHandlerArtifact),
+            (archive) => {
+                archive.append(SiteAssetsHandlerCode, { name: "index.mjs" });
+            },
+        );
+    }
+
+    async uploadAssetArtifacts() {
+        if (
+            !this.#deploysWithCustomResource() ||
+            (this.serverless.service.provider as { shouldNotDeploy?: boolean })
+                .shouldNotDeploy
+        ) {
+            return;
+        }
+        const deploymentBucket =
+            await this.provider.getServerlessDeploymentBucketName();
+        const artifactDirectory =
+            this.serverless.service.package.artifactDirectoryName;
+        const s3 = this.#s3Client();
+        for (const artifact of [
+            SiteAssetsHandlerArtifact,
+            SiteAssetsArtifact,
+            SiteAssetsListArtifact,
+        ]) {
+            const key = this.#artifactPath(artifact);
+            const artifactPath = path.join(
+                this.serverless.serviceDir,
+                ".serverless",
+                key,
+            );
+            const { size } = await fs.stat(artifactPath);
+            this.log.info(`Uploading ${key} (${size} bytes)`);
+            await uploadAsset(
+                s3,
+                { key, path: artifactPath, size, etag: "" },
+                {
+                    Bucket: deploymentBucket,
+                    Key: `${artifactDirectory}/${key}`,
+                    ContentType:
+                        mime.getType(key) ?? "application/octet-stream",
+                },
+                this.#multipartChunkSize(),
+            );
+        }
+    }
+
+    async uploadRedirectStore() {
+        if (
+            (this.serverless.service.provider as { shouldNotDeploy?: boolean })
+                .shouldNotDeploy
+        ) {
+            return;
+        }
+        const storeFile = this.#redirectStoreFile();
+        let data: string;
+        try {
+            data = await fs.readFile(storeFile, "utf-8");
+        } catch {
+            // No redirects stored in a KeyValueStore
+            return;
+        }
+        const key = this.#redirectStoreKey(data);
+        this.log.info(`Uploading ${key}`);
+        await uploadAsset(
+            this.#s3Client(),
+            { key, path: storeFile, size: Buffer.byteLength(data), etag: "" },
+            {
+                Bucket: await this.provider.getServerlessDeploymentBucketName(),
+                Key: key,
+                ContentType: "application/json",
+            },
+            this.#multipartChunkSize(),
+        );
+    }
+
+    async preUploadAssets() {
+        // Upload the assets before uploading the SSR function, so that visitors don't see a broken site.
+        // Versioned releases are uploaded before the distribution switches to them.
+        if (this.#deploysWithCustomResource()) {
+            // The stack update deploys the assets
+            return;
+        }
+        if ((await this.#hasSSR()) || this.customConfig.versioned) {
+            const outputs = await this.getStackOutputs(false);
+            const bucketOutput = this.#logicalId("SiteBucketName");
+            if (!(bucketOutput in outputs)) {
+                // Initial deploy doesn't have the bucket/output yet
+                this.log.info(
+                    `${bucketOutput} output not found, skipping asset upload`,
+                );
+                return;
+            }
+            this.#preUploading = true;
+            try {
+                await this.serverless.pluginManager.spawn("frontend:upload");
+            } finally {
+                this.#preUploading = false;
+            }
+        }
+    }
+
+    async postUploadAssets() {
+        // Assets deployed by the stack are only recorded in the manifest
+        this.#deployedByStack = this.#deploysWithCustomResource();
+        try {
+            await this.serverless.pluginManager.spawn("frontend:upload");
+        } finally {
+            this.#deployedByStack = false;
+        }
+    }
+
+    async afterDeploy() {
+        const adapter = await this.#frameworkAdapter();
+        await adapter?.afterDeploy?.(this.#frameworkContext());
+    }
+
+    async #assetDirectory(): Promise<string> {
+        const adapter = await this.#frameworkAdapter();
+        return (
+            adapter?.clientDirectory(this.#frameworkContext()) ??
+            (this.customConfig.ssr ? "dist/client" : "dist")
+        );
+    }
+
+    async #immutableAssets(): Promise<RegExp> {
+        const adapter = await this.#frameworkAdapter();
+        return adapter?.immutableAssets ?? /^$/;
+    }
+
+    async #gitCommit(): Promise<string | undefined> {
+        const gitProcess = new Process(
+            spawn("git", ["rev-parse", "HEAD"], {
+                cwd: this.serverless.serviceDir,
+            }),
+        );
+        gitProcess.process.on("error", dummy);
+        if ((await gitProcess.exitCode) !== 0) {
+            return undefined;
+        }
+        return gitProcess.stdout.trim();
+    }
+
+    async releaseId(): Promise<string | undefined> {
+        if (!this.customConfig.versioned) {
+            return undefined;
+        }
+        const site = this.#currentSite();
+        site.releaseIdPromise ??= this.#resolveReleaseId();
+        return site.releaseIdPromise;
+    }
+
+    async #resolveReleaseId(): Promise<string> {
+        const buildId = this.customConfig.buildId ?? "content";
+        let releaseId: string;
+        if (buildId === "git") {
+            const gitCommit = await this.#gitCommit();
+            if (gitCommit === undefined) {
+                throw new Error(
+                    "Unable to determine the git commit for the build ID",
+                );
+            }
+            releaseId = gitCommit.substring(0, 12);
+        } else if (buildId === "content") {
+            const assets = await listLocalAssets(
+                path.join(this.#root(), await this.#assetDirectory()),
+                undefined,
+                (file) => this.#skipFile(file),
+            );
+            // Ignore compressed variants, as they may be generated during upload
+            const keys = new Set(assets.map((asset) => asset.key));
+            releaseId = contentHash(
+                assets.filter(
+                    (asset) => compressedVariant(asset.key, keys) === undefined,
+                ),
+                await this.#functionPackageHashes(),
+            );
+        } else {
+            releaseId = buildId;
+        }
+        if (!/^[\w.-]+$/.test(releaseId)) {
+            throw new Error(
+                `Invalid build ID '${releaseId}', only letters, digits, '.', '_' and '-' are allowed`,
+            );
+        }
+        return releaseId;
+    }
+
+    /**
+     * Hashes of the packages of the site functions, so a release with
+     * another server build gets another ID. Functions that haven't been
+     * packaged, like when only uploading the frontend, are left out.
+     */
+    async #functionPackageHashes(): Promise<Record<string, string>> {
+        const site = this.#currentSite();
+        if (site.functions.size === 0) {
+            await this.addFunctions();
+        }
+        const hashes: Record<string, string> = {};
+        for (const name of site.functions) {
+            const artifact =
+                this.serverless.service.functions[this.#functionKey(name)]
+                    .package?.artifact;
+            if (artifact === undefined) {
+                continue;
+            }
+            let zip: Buffer;
+            try {
+                zip = await fs.readFile(artifact);
+            } catch {
+                // Not packaged
+                continue;
+            }
+            hashes[name] = packageContentHash(zip);
+        }
+        return hashes;
+    }
+
+    #skipFile(fullPath: string) {
+        this.log.warning(`Skipping file outside of the directory: ${fullPath}`);
+    }
+
+    async assetPrefix(): Promise<string> {
+        const releaseId = await this.releaseId();
+        return releaseId === undefined ? "" : `${ReleasesPrefix}/${releaseId}/`;
+    }
+
+    /**
+     * Compares the build output with the site bucket. Without a bucket,
+     * when the stack hasn't been deployed yet, every file is new.
+     */
+    async #localAssets(): Promise<LocalAsset[]> {
+        const fullDirectory = path.join(
+            this.#root(),
+            await this.#assetDirectory(),
+        );
+        const localAssets = await listLocalAssets(
+            fullDirectory,
+            this.#multipartChunkSize(),
+            (file) => this.#skipFile(file),
+        );
+        const encodings = this.#compressionEncodings();
+        if (encodings.length > 0) {
+            const compressedDirectory = path.join(
+                this.serverless.serviceDir,
+                this.#artifactPath(".serverless/compressed"),
+            );
+            const generated = await generateCompressedVariants(
+                fullDirectory,
+                compressedDirectory,
+                encodings,
+            );
+            this.log.info(`Generated ${generated} compressed assets`);
+            localAssets.push(
+                ...(await listLocalAssets(
+                    compressedDirectory,
+                    this.#multipartChunkSize(),
+                )),
+            );
+            localAssets.sort((a, b) => a.key.localeCompare(b.key));
+        }
+        const keys = new Set(localAssets.map((asset) => asset.key));
+        const immutableAssets = await this.#immutableAssets();
+        for (const asset of localAssets) {
+            asset.headers = this.#assetHeaders(immutableAssets, asset, keys);
+        }
+        return localAssets;
+    }
+
+    async planAssetUpload(
+        bucketName: string | undefined,
+    ): Promise<AssetSyncPlan> {
+        const localAssets = await this.#localAssets();
+        const prefix = await this.assetPrefix();
+        if (bucketName === undefined) {
+            return planAssetSync(localAssets, []);
+        }
+        const remoteObjects = (await this.listObjectsV2(bucketName, prefix))
+            .filter((object) => !object.Key.startsWith(`${MetadataPrefix}/`))
+            .map((object) => ({
+                ...object,
+                Key: object.Key.substring(prefix.length),
+            }));
+        const previousManifest = await this.#readJson<DeploymentManifest>(
+            bucketName,
+            CurrentManifestKey,
+        );
+        const previousHeaders = new Map<string, ObjectHeaders>();
+        if (previousManifest?.releaseId === (await this.releaseId())) {
+            for (const file of previousManifest?.files ?? []) {
+                previousHeaders.set(file.key, file.headers);
+            }
+        }
+        return planAssetSync(
+            localAssets,
+            remoteObjects,
+            this.options.force === true,
+            previousHeaders,
+        );
+    }
+
+    #assetHeaders(
+        immutableAssets: RegExp,
+        asset: LocalAsset,
+        keys: Set<string>,
+    ): ObjectHeaders {
+        const variant =
+            this.#compressionEncodings().length > 0
+                ? compressedVariant(asset.key, keys)
+                : undefined;
+        // Compressed variants get the same headers as the original file
+        const key = variant?.originalKey ?? asset.key;
+        const headers: ObjectHeaders = applyAssetRules(
+            key,
+            {
+                CacheControl: key.match(immutableAssets)
+                    ? StandardCacheControl.immutable
+                    : StandardCacheControl.normal,
+                ContentType: mime.getType(key),
+            },
+            this.customConfig.assetRules ?? [],
+        );
+        if (variant !== undefined) {
+            headers.ContentEncoding = variant.encoding;
+        }
+        return headers;
+    }
+
+    #logLines(lines: string[]) {
+        for (const line of lines) {
+            this.log.notice(line);
+        }
+    }
+
+    async plan() {
+        const resources =
+            this.serverless.service.provider.compiledCloudFormationTemplate
+                .Resources;
+        const distributionId = this.#logicalId("SiteDistribution");
+        if (resources[distributionId] !== undefined) {
+            this.log.notice(`${distributionId}:`);
+            this.#logLines(
+                describeDistribution(
+                    resources[distributionId].Properties.DistributionConfig,
+                ),
+            );
+        }
+        const outputs = await this.getStackOutputs(false);
+        const bucketName = outputs[this.#logicalId("SiteBucketName")];
+        if (bucketName === undefined) {
+            this.log.notice(
+                "Site bucket not deployed yet, all files would be added",
+            );
+        }
+        const plan = await this.planAssetUpload(bucketName);
+        this.log.notice("Site bucket:");
+        this.#logLines(describeAssetPlan(plan, await this.assetPrefix()));
+    }
+
+    #compressionEncodings(): Encoding[] {
+        const compression = this.customConfig.compression;
+        if (compression == null || compression === false) {
+            return [];
+        }
+        if (compression === true) {
+            return ["br", "gzip"];
+        }
+        return compression.encodings ?? ["br", "gzip"];
+    }
+
+    #multipartChunkSize(): number {
+        const chunkSize = this.customConfig.multipartChunkSize;
+        return chunkSize != null
+            ? chunkSize * 1024 * 1024
+            : DefaultMultipartChunkSize;
+    }
+
+    #s3Client(): S3Client {
+        // Serverless queues provider requests two at a time,
+        // so uploads use their own client to allow more concurrency.
+        return new this.provider.sdk.S3({
+            ...this.provider.getCredentials(),
+            region: this.provider.getRegion(),
+        });
+    }
+
+    async uploadAssets() {
+        const bucketName = await this.#siteBucketName();
+        const uploadProgress = this.progress.get("upload");
+        uploadProgress.update("Comparing frontend with site bucket");
+        const plan = await this.planAssetUpload(bucketName);
+        const prefix = await this.assetPrefix();
+        if (this.options["dry-run"]) {
+            uploadProgress.remove();
+            this.#logLines(describeAssetPlan(plan, prefix));
+            return;
+        }
+        const s3 = this.#s3Client();
+        const chunkSize = this.#multipartChunkSize();
+        const assets = this.#deployedByStack
+            ? []
+            : [...plan.added, ...plan.changed];
+        const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+        const totalBytes = assets.reduce((sum, asset) => sum + asset.size, 0);
+        let uploadedFiles = 0;
+        let uploadedBytes = 0;
+        uploadProgress.update(
+            `Uploading frontend: 0 of ${assets.length} files, 0.0 of ${megabytes(totalBytes)} MB`,
         );
-        const output = fd.createWriteStream();
-        const promise = new Promise((resolve, reject) => {
-            output.on("close", () => {
-                resolve(true);
+        await mapConcurrently(
+            assets,
+            this.customConfig.uploadConcurrency ?? 8,
+            async (asset) => {
+                await uploadAsset(
+                    s3,
+                    asset,
+                    {
+                        Bucket: bucketName,
+                        Key: prefix + asset.key,
+                        ...asset.headers,
+                    },
+                    chunkSize,
+                );
+                uploadedFiles++;
+                uploadedBytes += asset.size;
+                uploadProgress.update(
+                    `Uploading frontend: ${uploadedFiles} of ${assets.length} files, ${megabytes(uploadedBytes)} of ${megabytes(totalBytes)} MB`,
+                );
+            },
+        );
+        uploadProgress.remove();
+        const releaseId = await this.releaseId();
+        if (releaseId !== undefined) {
+            this.log.notice(`Frontend release: ${releaseId}`);
+        }
+        // The SSR function is only updated after the pre-upload
+        if (!this.#preUploading) {
+            if (releaseId !== undefined) {
+                await this.#writeReleaseRecord(bucketName, releaseId);
+            }
+            await this.#writeManifest(bucketName, [
+                ...plan.added,
+                ...plan.changed,
+                ...plan.unchanged,
+            ]);
+        }
+        if (this.#deployedByStack) {
+            this.log.notice(
+                `Frontend assets deployed by CloudFormation, ${plan.stale.length} stale`,
+            );
+        } else {
+            this.log.notice(
+                `Frontend upload: ${assets.length} uploaded, ${plan.unchanged.length} skipped, ${plan.stale.length} stale`,
+            );
+        }
+        for (const object of plan.stale) {
+            this.log.info(`Stale object in site bucket: ${object.Key}`);
+        }
+        if (!this.#preUploading && this.customConfig.retention != null) {
+            await this.pruneAssets(bucketName, plan.stale, true);
+        }
+    }
+
+    // Name of the site bucket, from the outputs of the deployed stack
+    async #siteBucketName(): Promise<string> {
+        const outputs = await this.getStackOutputs();
+        const bucketOutput = this.#logicalId("SiteBucketName");
+        if (!(bucketOutput in outputs)) {
+            throw new Error(`${bucketOutput} output not found`);
+        }
+        return outputs[bucketOutput];
+    }
+
+    async #readJson<T>(
+        bucketName: string,
+        key: string,
+    ): Promise<T | undefined> {
+        try {
+            const result = await this.provider.request("S3", "getObject", {
+                Bucket: bucketName,
+                Key: key,
             });
-            archive.on("error", reject);
-        });
-        archive.pipe(output);
-        for (const patternElement of pattern) {
-            archive.glob(patternElement, { cwd, dot: true });
+            return JSON.parse(result.Body.toString());
+        } catch (err) {
+            if (isProviderError(err, "NoSuchKey")) {
+                return undefined;
+            }
+            throw err;
         }
-        await archive.finalize();
-        await promise;
     }
 
-    async packageFunctions() {
-        const packageProgress = this.progress.get("package-functions");
-        packageProgress.update("Packaging functions");
-        switch (await this.detectFramework()) {
-            case "tanstack-start":
-            case "nuxt":
-            case "nitro":
-                await this.packageFunction(
-                    ".serverless/frontend-function.zip",
-                    ".output",
-                );
+    async #writeJson(bucketName: string, key: string, value: unknown) {
+        await this.provider.request("S3", "putObject", {
+            Bucket: bucketName,
+            Key: key,
+            Body: JSON.stringify(value, null, 2),
+            ContentType: "application/json",
+        });
+    }
+
+    async #serverArtifactHash(): Promise<string | undefined> {
+        try {
+            const artifact = await fs.readFile(
+                path.join(
+                    this.serverless.serviceDir,
+                    this.#artifactPath(".serverless/frontend-function.zip"),
+                ),
+            );
+            // Same format as the CodeSha256 of the Lambda function
+            return createHash("sha256").update(artifact).digest("base64");
+        } catch {
+            return undefined;
         }
-        packageProgress.remove();
     }
 
-    async preUploadAssets() {
-        // Upload the assets before uploading the SSR function, so that visitors don't see a broken site
+    async #writeManifest(bucketName: string, assets: LocalAsset[]) {
         const framework = await this.detectFramework();
-        if (this.#hasSSR(framework)) {
-            const outputs = await this.getStackOutputs(false);
-            if (!("SiteBucketName" in outputs)) {
-                // Initial deploy doesn't have the bucket/output yet
-                this.log.info(
-                    "SiteBucketName output not found, skipping asset upload",
+        const previous = await this.#readJson<DeploymentManifest>(
+            bucketName,
+            CurrentManifestKey,
+        );
+        const createdAt = new Date();
+        const manifest: DeploymentManifest = {
+            id: manifestId(createdAt, contentHash(assets)),
+            previous: previous?.id,
+            createdAt: createdAt.toISOString(),
+            releaseId: await this.releaseId(),
+            framework,
+            buildCommand: await this.buildCommand().catch(() => undefined),
+            gitCommit: await this.#gitCommit(),
+            serverArtifactHash: (await this.#hasSSR())
+                ? await this.#serverArtifactHash()
+                : undefined,
+            files: assets
+                .map((asset) => ({
+                    key: asset.key,
+                    etag: asset.etag,
+                    size: asset.size,
+                    headers: asset.headers ?? {
+                        CacheControl: StandardCacheControl.normal,
+                    },
+                }))
+                .sort((a, b) => a.key.localeCompare(b.key)),
+        };
+        await this.#writeJson(bucketName, manifestKey(manifest.id), manifest);
+        await this.#writeJson(bucketName, CurrentManifestKey, manifest);
+        this.log.info(`Frontend manifest: ${manifestKey(manifest.id)}`);
+    }
+
+    async pruneAssets(
+        bucketName: string,
+        stale: RemoteObject[],
+        newDeployment: boolean,
+    ) {
+        const retention = this.customConfig.retention ?? {};
+        const dryRun = this.options["dry-run"] === true;
+        const now = new Date();
+        const keys: string[] = [];
+        if (this.customConfig.versioned) {
+            const { config } = await this.#getDistributionConfig();
+            const releases = await this.listReleases(bucketName);
+            const expired = expiredReleases(
+                releases,
+                this.#deployedReleaseId(config),
+                retention,
+                now,
+            );
+            for (const release of expired) {
+                this.log.info(`Pruning release ${release.id}`);
+                const objects = await this.listObjectsV2(
+                    bucketName,
+                    `${releaseOriginPath(release.id).substring(1)}/`,
+                );
+                const files = await this.listObjectsV2(
+                    bucketName,
+                    releaseFilesPrefix(release.id),
+                );
+                keys.push(
+                    ...objects.map((object) => object.Key),
+                    ...files.map((object) => object.Key),
+                    releaseRecordKey(release.id),
                 );
-                return;
             }
-            await this.serverless.pluginManager.spawn("frontend:upload");
+        } else {
+            const tracked = trackStaleObjects(
+                (await this.#readJson<StaleObjects>(
+                    bucketName,
+                    StaleObjectsKey,
+                )) ?? {},
+                stale.map((object) => object.Key),
+                now,
+                newDeployment,
+            );
+            for (const [key, staleSince] of Object.entries(tracked)) {
+                if (isExpired(staleSince, retention, now)) {
+                    keys.push(key);
+                    if (!dryRun) {
+                        delete tracked[key];
+                    }
+                }
+            }
+            if (!dryRun) {
+                await this.#writeJson(bucketName, StaleObjectsKey, tracked);
+            }
+        }
+
+        if (dryRun) {
+            for (const key of keys) {
+                this.log.notice(`Would delete ${key}`);
+            }
+            this.log.notice(`${keys.length} objects would be pruned`);
+            return;
         }
+        await this.deleteKeys(bucketName, keys);
+        this.log.notice(`Pruned ${keys.length} stale objects`);
     }
 
-    async uploadAssets() {
-        const outputs = await this.getStackOutputs();
-        if (!("SiteBucketName" in outputs)) {
-            throw new Error("SiteBucketName output not found");
+    async prune() {
+        const bucketName = await this.#siteBucketName();
+        if (this.customConfig.retention == null) {
+            this.log.warning(
+                "No retention configured in custom.frontend.retention, nothing will be pruned.",
+            );
         }
+        const stale = this.customConfig.versioned
+            ? []
+            : (await this.planAssetUpload(bucketName)).stale;
+        await this.pruneAssets(bucketName, stale, false);
+    }
 
-        const bucketName = outputs.SiteBucketName;
-        const uploadProgress = this.progress.get("upload");
-        uploadProgress.update("Uploading frontend");
-        const framework = await this.detectFramework();
+    /**
+     * Records the release, along with the snapshot and function packages
+     * written while packaging it, when they belong to the release.
+     */
+    async #writeReleaseRecord(bucketName: string, releaseId: string) {
+        let snapshot: ReleaseSnapshot | undefined;
+        try {
+            snapshot = JSON.parse(
+                await fs.readFile(
+                    path.join(
+                        this.serverless.serviceDir,
+                        this.#artifactPath(ReleaseSnapshotFile),
+                    ),
+                    "utf8",
+                ),
+            );
+        } catch {
+            // Not packaged, like when only uploading the frontend
+        }
+        if (snapshot?.releaseId === releaseId) {
+            const s3 = this.#s3Client();
+            for (const [name, artifact] of Object.entries(snapshot.packages)) {
+                const file = path.resolve(this.serverless.serviceDir, artifact);
+                const { size } = await fs.stat(file);
+                await uploadAsset(
+                    s3,
+                    { key: name, path: file, size, etag: "" },
+                    {
+                        Bucket: bucketName,
+                        Key: releasePackageKey(releaseId, name),
+                        ContentType: "application/zip",
+                    },
+                    this.#multipartChunkSize(),
+                );
+            }
+            await this.#writeJson(
+                bucketName,
+                releaseSnapshotKey(releaseId),
+                snapshot,
+            );
+        }
+        // Deploying the same release again keeps when it was first deployed
+        const existing = await this.#readJson<ReleaseRecord>(
+            bucketName,
+            releaseRecordKey(releaseId),
+        );
+        const record: ReleaseRecord = {
+            id: releaseId,
+            createdAt: existing?.createdAt ?? new Date().toISOString(),
+        };
+        await this.#writeJson(bucketName, releaseRecordKey(releaseId), record);
+    }
 
-        const directory =
-            framework === "nitro" ||
-            framework === "tanstack-start" ||
-            framework === "nuxt"
-                ? ".output/public"
-                : this.customConfig.ssr
-                  ? "dist/client"
-                  : "dist";
-        const immutableAssets =
-            framework === "nuxt"
-                ? /^_nuxt\//
-                : framework === "tanstack-start"
-                  ? /^assets\//
-                  : framework === "nitro" || framework === "vite"
-                    ? /^assets\//
-                    : /^$/;
-        const fullDirectory = path.join(this.serverless.serviceDir, directory);
-        const prefix = fullDirectory + path.sep;
-        const files = await fs.readdir(fullDirectory, {
-            recursive: true,
-            withFileTypes: true,
+    async listReleases(bucketName: string): Promise<ReleaseRecord[]> {
+        const objects = await this.listObjectsV2(
+            bucketName,
+            ReleaseRecordsPrefix,
+        );
+        const releases: ReleaseRecord[] = await Promise.all(
+            objects
+                .filter((object) => isReleaseRecordKey(object.Key))
+                .map(async (object) => {
+                    const result = await this.provider.request(
+                        "S3",
+                        "getObject",
+                        {
+                            Bucket: bucketName,
+                            Key: object.Key,
+                        },
+                    );
+                    return JSON.parse(result.Body.toString());
+                }),
+        );
+        return releases.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async #readReleaseSnapshot(
+        bucketName: string,
+        releaseId: string | undefined,
+    ): Promise<ReleaseSnapshot | undefined> {
+        return releaseId === undefined
+            ? undefined
+            : this.#readJson<ReleaseSnapshot>(
+                  bucketName,
+                  releaseSnapshotKey(releaseId),
+              );
+    }
+
+    // The template deployed by the last update of the stack
+    async #deployedTemplate(): Promise<CloudFormationTemplate> {
+        const result = await this.provider.request(
+            "CloudFormation",
+            "getTemplate",
+            {
+                StackName: this.provider.naming.getStackName(),
+                TemplateStage: "Original",
+            },
+        );
+        return JSON.parse(result.TemplateBody);
+    }
+
+    /**
+     * Stores the template in a new deployment directory of the deployment
+     * bucket, like Serverless does. As it differs from the artifacts of the
+     * next deploy, that deploy is never skipped as unchanged.
+     */
+    async #uploadTemplate(template: CloudFormationTemplate): Promise<string> {
+        const bucketName =
+            await this.provider.getServerlessDeploymentBucketName();
+        const now = new Date();
+        const key = `${this.#servicePrefix()}/${now.getTime()}-${now.toISOString()}/compiled-cloudformation-template.json`;
+        const body = JSON.stringify(template);
+        await this.provider.request("S3", "putObject", {
+            Bucket: bucketName,
+            Key: key,
+            Body: body,
+            ContentType: "application/json",
+            Metadata: {
+                filesha256: createHash("sha256").update(body).digest("base64"),
+            },
         });
-        const cacheControls = StandardCacheControl;
-        for (const file of files) {
-            if (!file.isFile()) {
-                continue;
+        const region = this.provider.getRegion();
+        const domain = region.startsWith("cn-")
+            ? "amazonaws.com.cn"
+            : "amazonaws.com";
+        return `https://s3.${region}.${domain}/${bucketName}/${key}`;
+    }
+
+    /**
+     * Updates the stack to the template, keeping its parameters, and waits
+     * until the update completes. Returns false without changes.
+     */
+    async #updateStack(templateUrl: string): Promise<boolean> {
+        const stackName = this.provider.naming.getStackName();
+        const {
+            Stacks: [stack],
+        } = await this.provider.request("CloudFormation", "describeStacks", {
+            StackName: stackName,
+        });
+        try {
+            await this.provider.request("CloudFormation", "updateStack", {
+                StackName: stackName,
+                TemplateURL: templateUrl,
+                Capabilities: [
+                    "CAPABILITY_IAM",
+                    "CAPABILITY_NAMED_IAM",
+                    "CAPABILITY_AUTO_EXPAND",
+                ],
+                Parameters: (stack.Parameters ?? []).map(
+                    ({ ParameterKey }: { ParameterKey: string }) => ({
+                        ParameterKey,
+                        UsePreviousValue: true,
+                    }),
+                ),
+            });
+        } catch (err) {
+            if (
+                err instanceof Error &&
+                err.message.includes("No updates are to be performed")
+            ) {
+                return false;
+            }
+            throw err;
+        }
+        for (;;) {
+            const {
+                Stacks: [{ StackStatus, StackStatusReason }],
+            } = await this.provider.request(
+                "CloudFormation",
+                "describeStacks",
+                { StackName: stackName },
+            );
+            if (StackStatus === "UPDATE_COMPLETE") {
+                return true;
             }
-            const fullPath = `${file.parentPath}/${file.name}`;
-            if (!fullPath.startsWith(prefix)) {
-                console.warn(
-                    "Skipping file outside of the directory:",
-                    fullPath,
+            if (
+                !StackStatus.endsWith("_IN_PROGRESS") ||
+                StackStatus.includes("ROLLBACK")
+            ) {
+                throw new this.serverless.classes.Error(
+                    `Updating the stack failed with ${StackStatus}${StackStatusReason === undefined ? "" : `: ${StackStatusReason}`}`,
                 );
-                continue;
             }
-            const baseKey = fullPath.substring(prefix.length);
-            const targetKey = baseKey;
-            const cacheControl = baseKey.match(immutableAssets)
-                ? cacheControls.immutable
-                : cacheControls.normal;
-            const params = {
-                Body: await fs.readFile(fullPath),
-                Bucket: bucketName,
-                Key: targetKey,
-                CacheControl: cacheControl,
-                ContentType: mime.getType(fullPath),
-            };
-            await this.provider.request("S3", "putObject", params);
+            await sleep(5000);
+        }
+    }
+
+    async #getDistributionConfig(): Promise<{
+        distributionId: string;
+        config: CloudFrontDistributionConfig & {
+            Origins: { Items: CloudFrontOrigin[] };
+        };
+        etag: string;
+    }> {
+        const logicalId = this.#logicalId("SiteDistribution");
+        const distributionId = await this.getStackResourceId(logicalId);
+        if (distributionId == null) {
+            throw new Error(`${logicalId} resource not found`);
+        }
+        const result = await this.provider.request(
+            "CloudFront",
+            "getDistributionConfig",
+            { Id: distributionId },
+        );
+        return {
+            distributionId,
+            config: result.DistributionConfig,
+            etag: result.ETag,
+        };
+    }
+
+    #deployedReleaseId(config: {
+        Origins: { Items: CloudFrontOrigin[] };
+    }): string | undefined {
+        return releaseIdFromOriginPath(
+            config.Origins.Items.find(
+                (origin) => origin.Id === StandardOrigins.staticFiles.Id,
+            )?.OriginPath,
+        );
+    }
+
+    /**
+     * Updates the stack with the resources of the site as recorded for the
+     * release, so CloudFormation points the distribution to its files and
+     * the functions to its packages. The rest of the stack isn't changed,
+     * and the next deploy replaces the rollback with the build.
+     */
+    async rollback() {
+        if (!this.customConfig.versioned) {
+            throw new this.serverless.classes.Error(
+                "Rolling back requires versioned releases, set custom.frontend.versioned to true",
+            );
+        }
+        const bucketName = await this.#siteBucketName();
+        const releases = await this.listReleases(bucketName);
+        const { config } = await this.#getDistributionConfig();
+        const currentReleaseId = this.#deployedReleaseId(config);
+
+        const releaseId = this.options.release;
+        if (typeof releaseId !== "string") {
+            for (const release of releases) {
+                this.log.notice(
+                    `${release.id}  ${release.createdAt}${release.id === currentReleaseId ? "  (current)" : ""}`,
+                );
+            }
+            this.log.notice(
+                "Specify the release to roll back to using --release <id>",
+            );
+            return;
+        }
+        const release = releases.find((release) => release.id === releaseId);
+        if (release === undefined) {
+            throw new this.serverless.classes.Error(
+                `Release '${releaseId}' not found`,
+            );
+        }
+        const snapshot = await this.#readReleaseSnapshot(
+            bucketName,
+            release.id,
+        );
+        if (snapshot === undefined) {
+            throw new this.serverless.classes.Error(
+                `Release '${release.id}' was recorded without its resources, deploy its build instead`,
+            );
+        }
+
+        const rollbackProgress = this.progress.get("rollback");
+        rollbackProgress.update(`Rolling back to release ${release.id}`);
+        const template = rollbackTemplate(
+            await this.#deployedTemplate(),
+            await this.#readReleaseSnapshot(bucketName, currentReleaseId),
+            snapshot,
+        );
+        const updated = await this.#updateStack(
+            await this.#uploadTemplate(template),
+        );
+        rollbackProgress.remove();
+        if (!updated) {
+            this.log.notice(`Release ${release.id} is already deployed`);
+            return;
+        }
+        // The manifests describe the deployments, not the rollback
+        await this.createInvalidation([InvalidateEverything]);
+        this.log.notice(`Rolled back to release ${release.id}`);
+    }
+
+    async #invalidationPaths(): Promise<string[]> {
+        const outputs = await this.getStackOutputs();
+        const bucketName = outputs[this.#logicalId("SiteBucketName")];
+        if (bucketName === undefined) {
+            return [InvalidateEverything];
+        }
+        const current = await this.#readJson<DeploymentManifest>(
+            bucketName,
+            CurrentManifestKey,
+        );
+        const previous =
+            current?.previous === undefined
+                ? undefined
+                : await this.#readJson<DeploymentManifest>(
+                      bucketName,
+                      manifestKey(current.previous),
+                  );
+        return invalidationPaths(
+            previous,
+            current,
+            this.customConfig.maxInvalidationPaths,
+            await this.#fallbackPages(),
+        );
+    }
+
+    // Pages CloudFront serves under the routes without a file of their own
+    async #fallbackPages(): Promise<string[]> {
+        switch (await this.#siteMode()) {
+            case "spa":
+                return ["index.html"];
+            case "static":
+                return ["404.html"];
+            default:
+                return [];
         }
-        uploadProgress.remove();
     }
 
-    async createInvalidation() {
+    async createInvalidation(paths?: string[]) {
         const invalidateProgress = this.progress.get("invalidate");
         invalidateProgress.update("Creating invalidation");
-        const stackName = this.provider.naming.getStackName();
-        const result: {
-            StackResources: Array<{
-                LogicalResourceId: string;
-                PhysicalResourceId: string;
-            }>;
-        } = await this.provider.request(
-            "CloudFormation",
-            "describeStackResources",
-            { StackName: stackName },
+        const distributionId = await this.getStackResourceId(
+            this.#logicalId("SiteDistribution"),
         );
-        const distribution = result.StackResources.find(
-            (resource) => resource.LogicalResourceId === "SiteDistribution",
-        );
-        const distributionId = distribution?.PhysicalResourceId;
-        if (distributionId != null) {
-            await this.provider.request("CloudFront", "createInvalidation", {
+        if (distributionId == null) {
+            invalidateProgress.remove();
+            return;
+        }
+        const items = paths ?? (await this.#invalidationPaths());
+        if (items.length === 0) {
+            invalidateProgress.remove();
+            this.log.notice("No changed files, skipping invalidation");
+            return;
+        }
+        const result = await this.provider.request(
+            "CloudFront",
+            "createInvalidation",
+            {
                 DistributionId: distributionId,
                 InvalidationBatch: {
                     CallerReference: new Date().toISOString(),
                     Paths: {
-                        Quantity: 1,
-                        Items: ["/*"],
+                        Quantity: items.length,
+                        Items: items,
                     },
                 },
-            });
+            },
+        );
+        const invalidationId: string = result.Invalidation.Id;
+        this.log.notice(
+            `Created invalidation ${invalidationId} for ${items.join(", ")}`,
+        );
+        if (this.options.wait) {
+            invalidateProgress.update(
+                `Waiting for invalidation ${invalidationId} to complete`,
+            );
+            const deadline = Date.now() + InvalidationWaitTimeout;
+            let status: string = result.Invalidation.Status;
+            while (status !== "Completed") {
+                if (Date.now() >= deadline) {
+                    invalidateProgress.remove();
+                    throw new this.serverless.classes.Error(
+                        `Invalidation ${invalidationId} didn't complete within ${InvalidationWaitTimeout / 60000} minutes, check its status in the CloudFront console`,
+                    );
+                }
+                await sleep(10000);
+                const invalidation = await this.provider.request(
+                    "CloudFront",
+                    "getInvalidation",
+                    { DistributionId: distributionId, Id: invalidationId },
+                );
+                status = invalidation.Invalidation.Status;
+            }
+            this.log.notice(`Invalidation ${invalidationId} completed`);
         }
         invalidateProgress.remove();
     }
 
-    async listObjectsV2(bucketName: string): Promise<Array<{ Key: string }>> {
-        const objectsInBucket: { Key: string }[] = [];
-
-        let result: { Contents: { Key: string }[] } | undefined;
-        try {
-            result = await this.provider.request("S3", "listObjectsV2", {
-                Bucket: bucketName,
-                Prefix: "",
-            });
-        } catch (err) {
-            if (
-                err instanceof Error &&
-                "code" in err &&
-                err.code === "AWS_S3_LIST_OBJECTS_V2_ACCESS_DENIED"
-            ) {
-                throw new this.serverless.classes.Error(
-                    `Could not list objects in the deployment bucket. Make sure you have sufficient permissions to access it. [${err.code}]`,
-                );
+    async *#listObjectPages(
+        bucketName: string,
+        prefix: string,
+    ): AsyncGenerator<RemoteObject[]> {
+        let continuationToken: string | undefined;
+        do {
+            let result:
+                | {
+                      Contents?: RemoteObject[];
+                      NextContinuationToken?: string;
+                  }
+                | undefined;
+            try {
+                result = await this.provider.request("S3", "listObjectsV2", {
+                    Bucket: bucketName,
+                    Prefix: prefix,
+                    ContinuationToken: continuationToken,
+                });
+            } catch (err) {
+                if (
+                    err instanceof Error &&
+                    "code" in err &&
+                    err.code === "AWS_S3_LIST_OBJECTS_V2_ACCESS_DENIED"
+                ) {
+                    throw new this.serverless.classes.Error(
+                        `Could not list objects in the deployment bucket. Make sure you have sufficient permissions to access it. [${err.code}]`,
+                    );
+                }
+                throw err;
             }
-            throw err;
-        }
 
-        if (result) {
-            result.Contents.forEach((object) => {
-                objectsInBucket.push({
-                    Key: object.Key,
-                });
-            });
+            yield (result?.Contents ?? []).map((object) => ({
+                Key: object.Key,
+                ETag: object.ETag,
+                Size: object.Size,
+                LastModified: object.LastModified,
+            }));
+            continuationToken = result?.NextContinuationToken;
+        } while (continuationToken !== undefined);
+    }
+
+    async listObjectsV2(
+        bucketName: string,
+        prefix: string = "",
+    ): Promise<RemoteObject[]> {
+        const objectsInBucket: RemoteObject[] = [];
+        for await (const objects of this.#listObjectPages(bucketName, prefix)) {
+            objectsInBucket.push(...objects);
         }
         return objectsInBucket;
     }
@@ -835,13 +3189,55 @@ class FrontendPlugin implements Plugin {
         return this.listObjectsV2(bucketName);
     }
 
-    async deleteObjects(bucketName: string) {
-        const objectsInBucket = await this.listObjects(bucketName);
-        if (objectsInBucket.length) {
+    async *#listObjectVersionPages(
+        bucketName: string,
+    ): AsyncGenerator<ObjectIdentifier[]> {
+        let keyMarker: string | undefined;
+        let versionIdMarker: string | undefined;
+        do {
+            const result: {
+                Versions?: ObjectIdentifier[];
+                DeleteMarkers?: ObjectIdentifier[];
+                IsTruncated?: boolean;
+                NextKeyMarker?: string;
+                NextVersionIdMarker?: string;
+            } = await this.provider.request("S3", "listObjectVersions", {
+                Bucket: bucketName,
+                KeyMarker: keyMarker,
+                VersionIdMarker: versionIdMarker,
+            });
+            yield [
+                ...(result.Versions ?? []),
+                ...(result.DeleteMarkers ?? []),
+            ].map(({ Key, VersionId }) => ({ Key, VersionId }));
+            keyMarker = result.IsTruncated ? result.NextKeyMarker : undefined;
+            versionIdMarker = result.NextVersionIdMarker;
+        } while (keyMarker !== undefined);
+    }
+
+    async #isVersionedBucket(bucketName: string): Promise<boolean> {
+        const result = await this.provider.request(
+            "S3",
+            "getBucketVersioning",
+            {
+                Bucket: bucketName,
+            },
+        );
+        // Buckets that ever had versioning enabled can still contain versions
+        return result.Status === "Enabled" || result.Status === "Suspended";
+    }
+
+    async deleteObjectVersions(
+        bucketName: string,
+        objects: ObjectIdentifier[],
+    ) {
+        // S3 accepts up to 1000 keys per request
+        for (let i = 0; i < objects.length; i += 1000) {
             const data = await this.provider.request("S3", "deleteObjects", {
                 Bucket: bucketName,
                 Delete: {
-                    Objects: objectsInBucket,
+                    Objects: objects.slice(i, i + 1000),
+                    Quiet: true,
                 },
             });
             if (data?.Errors?.length) {
@@ -849,33 +3245,60 @@ class FrontendPlugin implements Plugin {
 
                 if (firstErrorCode === "AccessDenied") {
                     throw new this.serverless.classes.Error(
-                        `Could not empty the S3 deployment bucket (${bucketName}). Make sure that you have permissions that allow S3 objects deletion. First encountered S3 error code: ${firstErrorCode} [CANNOT_DELETE_S3_OBJECTS_ACCESS_DENIED]`,
+                        `Could not delete objects from the S3 bucket (${bucketName}). Make sure that you have permissions that allow S3 objects deletion. First encountered S3 error code: ${firstErrorCode} [CANNOT_DELETE_S3_OBJECTS_ACCESS_DENIED]`,
                     );
                 }
 
                 throw new this.serverless.classes.Error(
-                    `Could not empty the S3 deployment bucket (${bucketName}). First encountered S3 error code: ${firstErrorCode} [CANNOT_DELETE_S3_OBJECTS_GENERIC]`,
+                    `Could not delete objects from the S3 bucket (${bucketName}). First encountered S3 error code: ${firstErrorCode} [CANNOT_DELETE_S3_OBJECTS_GENERIC]`,
                 );
             }
         }
     }
 
-    async emptySiteBucket() {
-        const stackName = this.provider.naming.getStackName();
-        const result: {
-            StackResources: Array<{
-                LogicalResourceId: string;
-                PhysicalResourceId: string;
-            }>;
-        } = await this.provider.request(
-            "CloudFormation",
-            "describeStackResources",
-            { StackName: stackName },
+    async deleteKeys(bucketName: string, keys: string[]) {
+        await this.deleteObjectVersions(
+            bucketName,
+            keys.map((Key) => ({ Key })),
         );
-        const siteBucket = result.StackResources.find(
-            (resource) => resource.LogicalResourceId === "SiteBucket",
+    }
+
+    async deleteObjects(bucketName: string) {
+        const emptyProgress = this.progress.get("empty-site-bucket");
+        emptyProgress.update("Emptying site bucket");
+        let deleted = 0;
+        try {
+            const pages: AsyncGenerator<ObjectIdentifier[]> =
+                (await this.#isVersionedBucket(bucketName))
+                    ? this.#listObjectVersionPages(bucketName)
+                    : this.#listObjectPages(bucketName, "");
+            // Objects are deleted page by page, so an interrupted removal
+            // continues where it left off when it is run again.
+            for await (const objects of pages) {
+                await this.deleteObjectVersions(
+                    bucketName,
+                    objects.map(({ Key, VersionId }) => ({ Key, VersionId })),
+                );
+                deleted += objects.length;
+                emptyProgress.update(
+                    `Emptying site bucket: ${deleted} objects deleted`,
+                );
+            }
+        } catch (err) {
+            if (!isProviderError(err, "NoSuchBucket")) {
+                throw err;
+            }
+            this.log.info("Site S3 bucket was already removed");
+        } finally {
+            emptyProgress.remove();
+        }
+        this.log.info(`Deleted ${deleted} objects from the site bucket`);
+    }
+
+    async emptySiteBucket() {
+        const bucketName = await this.getStackResourceId(
+            this.#logicalId("SiteBucket"),
         );
-        const bucketName = siteBucket?.PhysicalResourceId;
         if (bucketName != null) {
             await this.deleteObjects(bucketName);
         } else {
@@ -884,6 +3307,19 @@ class FrontendPlugin implements Plugin {
             );
         }
     }
+
+    async beforeRemove() {
+        const adapter = await this.#frameworkAdapter();
+        await adapter?.beforeRemove?.(this.#frameworkContext());
+    }
 }
 
 export default FrontendPlugin;
+export type {
+    FrameworkAdapter,
+    FrameworkContext,
+    FrameworkFunction,
+    FrameworkRoutes,
+    PackageJson,
+    SiteMode,
+} from "./framework";
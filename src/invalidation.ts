@@ -0,0 +1,81 @@
+import { sameHeaders } from "./assets";
+import type { DeploymentManifest, ManifestFile } from "./manifest";
+
+export const InvalidateEverything = "/*";
+
+export const DefaultMaxInvalidationPaths = 20;
+
+// Invalidations usually complete within minutes
+export const InvalidationWaitTimeout = 30 * 60 * 1000;
+
+/**
+ * Keys of the files that were added, changed or removed between two
+ * deployments.
+ */
+export function changedKeys(
+    previous: ManifestFile[],
+    current: ManifestFile[],
+): string[] {
+    const previousByKey = new Map(previous.map((file) => [file.key, file]));
+    const keys = new Set<string>();
+    for (const file of current) {
+        const previousFile = previousByKey.get(file.key);
+        previousByKey.delete(file.key);
+        if (
+            previousFile === undefined ||
+            previousFile.etag !== file.etag ||
+            !sameHeaders(previousFile.headers, file.headers)
+        ) {
+            keys.add(file.key);
+        }
+    }
+    for (const key of previousByKey.keys()) {
+        keys.add(key);
+    }
+    return [...keys].sort();
+}
+
+/**
+ * Paths under which viewers can request a file. An index.html is also served
+ * for the directory, with and without trailing slash.
+ */
+export function keyPaths(key: string): string[] {
+    const path = `/${encodeURI(key)}`;
+    if (key === "index.html") {
+        return [path, "/"];
+    }
+    if (key.endsWith("/index.html")) {
+        const directory = path.substring(0, path.length - "index.html".length);
+        return [path, directory, directory.substring(0, directory.length - 1)];
+    }
+    return [path];
+}
+
+/**
+ * Paths to invalidate after deploying the current manifest. Falls back to
+ * invalidating everything when the previous deployment is unknown, the SSR
+ * function changed, a fallback page served for other routes changed (like
+ * the index.html of an SPA), or too many paths changed.
+ */
+export function invalidationPaths(
+    previous: DeploymentManifest | undefined,
+    current: DeploymentManifest | undefined,
+    maxPaths: number = DefaultMaxInvalidationPaths,
+    fallbackPages: string[] = [],
+): string[] {
+    if (previous === undefined || current === undefined) {
+        return [InvalidateEverything];
+    }
+    if (previous.serverArtifactHash !== current.serverArtifactHash) {
+        return [InvalidateEverything];
+    }
+    const keys = changedKeys(previous.files, current.files);
+    if (keys.some((key) => fallbackPages.includes(key))) {
+        return [InvalidateEverything];
+    }
+    const paths = keys.flatMap(keyPaths);
+    if (paths.length > maxPaths) {
+        return [InvalidateEverything];
+    }
+    return paths;
+}
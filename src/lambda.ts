@@ -0,0 +1,194 @@
+// Name of the generated entry point in the server function package
+export const LambdaShimFile = "lambda.mjs";
+export const LambdaShimHandler = "lambda.handler";
+
+/**
+ * Converts Lambda Function URL events to `{ method, path, headers, body }`
+ * requests, and response headers to the Lambda format.
+ */
+const functionUrlAdapter = [
+    "function eventRequest(event) {",
+    "    const headers = { ...event.headers };",
+    "    if (event.cookies?.length) {",
+    '        headers.cookie = event.cookies.join("; ");',
+    "    }",
+    '    headers["x-forwarded-proto"] ??= "https";',
+    '    const query = event.rawQueryString ? "?" + event.rawQueryString : "";',
+    "    return {",
+    "        method: event.requestContext.http.method,",
+    "        path: event.rawPath + query,",
+    "        headers,",
+    "        body:",
+    "            event.body === undefined",
+    "                ? undefined",
+    '                : Buffer.from(event.body, event.isBase64Encoded ? "base64" : "utf8"),',
+    "    };",
+    "}",
+    "",
+    "// Hop-by-hop headers don't apply to the Lambda response",
+    'const hopByHopHeaders = ["connection", "keep-alive", "transfer-encoding"];',
+    "",
+    "function responseHeaders(headers) {",
+    "    const result = { headers: {}, cookies: [] };",
+    "    for (const [name, value] of headers) {",
+    "        if (hopByHopHeaders.includes(name)) {",
+    "            continue;",
+    '        } else if (name === "set-cookie") {',
+    "            result.cookies.push(value);",
+    "        } else if (name in result.headers) {",
+    '            result.headers[name] += ", " + value;',
+    "        } else {",
+    "            result.headers[name] = value;",
+    "        }",
+    "    }",
+    "    return result;",
+    "}",
+];
+
+/**
+ * Buffered handler, for servers given as `serverRequest(request)`, which
+ * resolves to `{ statusCode, headers, body }`.
+ */
+const bufferedHandler = [
+    "export async function handler(event) {",
+    "    const { statusCode, headers, body } = await serverRequest(eventRequest(event));",
+    "    const result = { statusCode, ...responseHeaders(headers) };",
+    "    if (body.length > 0) {",
+    '        result.body = body.toString("base64");',
+    "        result.isBase64Encoded = true;",
+    "    }",
+    "    return result;",
+    "}",
+];
+
+/**
+ * Lambda handler for servers with a Node.js `(req, res, next)` request
+ * listener, like Express middleware. The listener runs in an HTTP server on
+ * localhost, which is started once per Lambda instance.
+ *
+ * @param entry path of the server entry, relative to the package root
+ * @param exportName name of the exported request listener
+ * @param environment variables to set before loading the entry
+ */
+export function nodeListenerShim(
+    entry: string,
+    exportName: string,
+    environment: Record<string, string> = {},
+): string {
+    return [
+        'import { createServer, request } from "node:http";',
+        "",
+        ...Object.entries(environment).map(
+            ([name, value]) =>
+                `process.env[${JSON.stringify(name)}] ??= ${JSON.stringify(value)};`,
+        ),
+        `const { ${exportName}: listener } = await import(${JSON.stringify(`./${entry}`)});`,
+        "const server = createServer((req, res) =>",
+        "    listener(req, res, () => {",
+        "        res.statusCode = 404;",
+        '        res.end("Not Found");',
+        "    }),",
+        ");",
+        "const port = await new Promise((resolve) =>",
+        '    server.listen(0, "127.0.0.1", () => resolve(server.address().port)),',
+        ");",
+        "",
+        "function serverRequest({ method, path, headers, body }) {",
+        "    return new Promise((resolve, reject) => {",
+        "        const req = request(",
+        '            { host: "127.0.0.1", port, method, path, headers },',
+        "            (res) => {",
+        "                const chunks = [];",
+        '                res.on("data", (chunk) => chunks.push(chunk));',
+        '                res.on("error", reject);',
+        '                res.on("end", () => {',
+        "                    const headers = [];",
+        "                    for (let i = 0; i < res.rawHeaders.length; i += 2) {",
+        "                        headers.push([res.rawHeaders[i].toLowerCase(), res.rawHeaders[i + 1]]);",
+        "                    }",
+        "                    resolve({ statusCode: res.statusCode, headers, body: Buffer.concat(chunks) });",
+        "                });",
+        "            },",
+        "        );",
+        '        req.on("error", reject);',
+        "        req.end(body);",
+        "    });",
+        "}",
+        "",
+        ...functionUrlAdapter,
+        "",
+        ...bufferedHandler,
+        "",
+    ].join("\n");
+}
+
+/**
+ * Lambda handler for servers with a Fetch API `handleRequest(request)`
+ * function, which resolves to a `Response`. With streaming, the response
+ * body is streamed to the Function URL as it is generated.
+ *
+ * @param setup statements defining `handleRequest`
+ */
+export function fetchHandlerShim(setup: string[], streaming: boolean): string {
+    return [
+        'import { Readable } from "node:stream";',
+        'import { pipeline } from "node:stream/promises";',
+        ...setup,
+        "",
+        ...functionUrlAdapter,
+        "",
+        "function fetchResponse({ method, path, headers, body }) {",
+        '    const host = headers["x-forwarded-host"] ?? headers.host;',
+        '    return handleRequest(new Request("https://" + host + path, { method, headers, body }));',
+        "}",
+        "",
+        ...(streaming
+            ? [
+                  "export const handler = awslambda.streamifyResponse(async (event, responseStream) => {",
+                  "    const response = await fetchResponse(eventRequest(event));",
+                  "    const stream = awslambda.HttpResponseStream.from(responseStream, {",
+                  "        statusCode: response.status,",
+                  "        ...responseHeaders(response.headers),",
+                  "    });",
+                  "    if (response.body) {",
+                  "        await pipeline(Readable.fromWeb(response.body), stream);",
+                  "    } else {",
+                  "        stream.end();",
+                  "    }",
+                  "});",
+              ]
+            : [
+                  "async function serverRequest(request) {",
+                  "    const response = await fetchResponse(request);",
+                  "    return {",
+                  "        statusCode: response.status,",
+                  "        headers: [...response.headers],",
+                  "        body: Buffer.from(await response.arrayBuffer()),",
+                  "    };",
+                  "}",
+                  "",
+                  ...bufferedHandler,
+              ]),
+        "",
+    ].join("\n");
+}
+
+/**
+ * Handler for the server build of React Router v7 (framework mode), or of
+ * Remix v2 when `runtime` is `@remix-run/node`.
+ */
+export function reactRouterShim(
+    serverBuild: string,
+    runtime: string,
+    streaming: boolean,
+): string {
+    return fetchHandlerShim(
+        [
+            `import { createRequestHandler } from ${JSON.stringify(runtime)};`,
+            `import * as build from ${JSON.stringify(`./${serverBuild}`)};`,
+            "",
+            'const handleRequest = createRequestHandler(build, "production");',
+        ],
+        streaming,
+    );
+}
@@ -0,0 +1,35 @@
+import type { ObjectHeaders } from "./assets";
+import { MetadataPrefix } from "./s3";
+
+export interface ManifestFile {
+    key: string;
+    etag: string;
+    size: number;
+    headers: ObjectHeaders;
+}
+
+export interface DeploymentManifest {
+    id: string;
+    previous?: string;
+    createdAt: string;
+    releaseId?: string;
+    framework: string | null;
+    buildCommand?: string | string[];
+    gitCommit?: string;
+    serverArtifactHash?: string;
+    files: ManifestFile[];
+}
+
+export const ManifestsPrefix = `${MetadataPrefix}/manifests/`;
+
+// Copy of the manifest of the last deployment
+export const CurrentManifestKey = `${MetadataPrefix}/manifest.json`;
+
+export function manifestKey(manifestId: string): string {
+    return `${ManifestsPrefix}${manifestId}.json`;
+}
+
+export function manifestId(createdAt: Date, contentHash: string): string {
+    const timestamp = createdAt.toISOString().replace(/[-:]|\.\d+/g, "");
+    return `${timestamp}-${contentHash}`;
+}
@@ -0,0 +1,202 @@
+import { StandardSiteBucket } from "./s3";
+
+// Build output of OpenNext (https://opennext.js.org/aws)
+export const OpenNextAssets = ".open-next/assets";
+export const OpenNextServerFunction = ".open-next/server-functions/default";
+export const OpenNextImageFunction = ".open-next/image-optimization-function";
+export const OpenNextRevalidationFunction = ".open-next/revalidation-function";
+export const OpenNextOutputFile = ".open-next/open-next.output.json";
+// Incremental cache entries and tags of the prerendered pages
+export const OpenNextCache = ".open-next/cache";
+export const OpenNextTagCacheFile =
+    ".open-next/dynamodb-provider/dynamodb-cache.json";
+
+export const ImageFunctionArtifact = ".serverless/frontend-image-function.zip";
+export const ImageFunctionRole = "SiteImageOptimizationRole";
+export const RevalidationFunctionArtifact =
+    ".serverless/frontend-revalidation-function.zip";
+export const RevalidationFunctionRole = "SiteRevalidationRole";
+export const CacheBucketKeyPrefix = "_cache";
+
+// Part of open-next.output.json used by the plugin
+export interface OpenNextOutput {
+    origins?: {
+        default?: {
+            streaming?: boolean;
+        };
+    };
+    additionalProps?: {
+        revalidationFunction?: {
+            bundle: string;
+        };
+    };
+}
+
+// Item of the tag cache, as written by OpenNext for the DynamoDB API
+export type TagCacheItem = Record<string, { S?: string; N?: string }>;
+
+function lambdaRole(policyName: string, statements: object[]) {
+    return {
+        AssumeRolePolicyDocument: {
+            Version: "2012-10-17",
+            Statement: [
+                {
+                    Effect: "Allow",
+                    Principal: { Service: "lambda.amazonaws.com" },
+                    Action: "sts:AssumeRole",
+                },
+            ],
+        },
+        ManagedPolicyArns: [
+            {
+                "Fn::Sub":
+                    //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                    "arn:${AWS::Partition}:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole",
+            },
+        ],
+        Policies: [
+            {
+                PolicyName: policyName,
+                PolicyDocument: {
+                    Version: "2012-10-17",
+                    Statement: statements,
+                },
+            },
+        ],
+    };
+}
+
+/**
+ * Role of the image optimization function, which reads the source images
+ * from the site bucket.
+ */
+export function imageOptimizationRole() {
+    return lambdaRole("SiteImages", [
+        {
+            Effect: "Allow",
+            Action: "s3:GetObject",
+            Resource: {
+                //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                "Fn::Sub": "${SiteBucket.Arn}/*",
+            },
+        },
+    ]);
+}
+
+/**
+ * Role of the revalidation function, which receives the paths to
+ * regenerate from the revalidation queue.
+ */
+export function revalidationRole() {
+    return lambdaRole("SiteRevalidation", [
+        {
+            Effect: "Allow",
+            Action: [
+                "sqs:ReceiveMessage",
+                "sqs:DeleteMessage",
+                "sqs:GetQueueAttributes",
+            ],
+            Resource: { "Fn::GetAtt": ["SiteRevalidationQueue", "Arn"] },
+        },
+    ]);
+}
+
+/**
+ * Caches of the SSR function, for ISR, revalidatePath and revalidateTag
+ * and the fetch cache: a bucket of cached pages and fetch responses, a
+ * FIFO queue of stale pages, and a DynamoDB table of the tags of pages.
+ * The cache bucket is separate from the site bucket, whose objects are
+ * replaced by each release.
+ */
+export function cacheResources() {
+    return {
+        SiteCacheBucket: {
+            Type: "AWS::S3::Bucket",
+            Properties: StandardSiteBucket,
+        },
+        SiteRevalidationQueue: {
+            Type: "AWS::SQS::Queue",
+            Properties: { FifoQueue: true },
+        },
+        SiteTagCache: {
+            Type: "AWS::DynamoDB::Table",
+            Properties: {
+                BillingMode: "PAY_PER_REQUEST",
+                AttributeDefinitions: [
+                    { AttributeName: "tag", AttributeType: "S" },
+                    { AttributeName: "path", AttributeType: "S" },
+                    { AttributeName: "revalidatedAt", AttributeType: "N" },
+                ],
+                KeySchema: [
+                    { AttributeName: "tag", KeyType: "HASH" },
+                    { AttributeName: "path", KeyType: "RANGE" },
+                ],
+                GlobalSecondaryIndexes: [
+                    {
+                        IndexName: "revalidate",
+                        KeySchema: [
+                            { AttributeName: "path", KeyType: "HASH" },
+                            {
+                                AttributeName: "revalidatedAt",
+                                KeyType: "RANGE",
+                            },
+                        ],
+                        Projection: { ProjectionType: "ALL" },
+                    },
+                ],
+            },
+        },
+    };
+}
+
+// Access of the SSR function to the caches, added to its role
+export function serverCachePolicy(role: string) {
+    return {
+        PolicyName: {
+            //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+            "Fn::Sub": "${AWS::StackName}-site-cache",
+        },
+        Roles: [{ Ref: role }],
+        PolicyDocument: {
+            Version: "2012-10-17",
+            Statement: [
+                {
+                    Effect: "Allow",
+                    Action: ["s3:GetObject", "s3:PutObject", "s3:DeleteObject"],
+                    Resource: {
+                        //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                        "Fn::Sub": "${SiteCacheBucket.Arn}/*",
+                    },
+                },
+                {
+                    Effect: "Allow",
+                    Action: "s3:ListBucket",
+                    Resource: { "Fn::GetAtt": ["SiteCacheBucket", "Arn"] },
+                },
+                {
+                    Effect: "Allow",
+                    Action: "sqs:SendMessage",
+                    Resource: {
+                        "Fn::GetAtt": ["SiteRevalidationQueue", "Arn"],
+                    },
+                },
+                {
+                    Effect: "Allow",
+                    Action: [
+                        "dynamodb:GetItem",
+                        "dynamodb:PutItem",
+                        "dynamodb:BatchWriteItem",
+                        "dynamodb:Query",
+                    ],
+                    Resource: [
+                        { "Fn::GetAtt": ["SiteTagCache", "Arn"] },
+                        {
+                            //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                            "Fn::Sub": "${SiteTagCache.Arn}/index/*",
+                        },
+                    ],
+                },
+            ],
+        },
+    };
+}
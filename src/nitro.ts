@@ -0,0 +1,178 @@
+import type { RouteRules } from "./route-rules";
+
+// Server build of the aws-lambda preset, with the runtime config inlined
+export const NitroServerDirectory = ".output/server";
+
+const RouteRulesProperty = /["']?routeRules["']?\s*:\s*\{/g;
+
+const StringEscapes: Record<string, string> = {
+    b: "\b",
+    f: "\f",
+    n: "\n",
+    r: "\r",
+    t: "\t",
+    v: "\v",
+    0: "\0",
+};
+
+/**
+ * Parses the object literal at the start index, made of JSON values as
+ * written by a minifier: unquoted keys, single quotes or backticks, and
+ * !0 and !1 for true and false. Throws on anything else, like code.
+ */
+function parseLiteral(code: string, start: number): unknown {
+    let index = start;
+
+    function fail(): never {
+        throw new Error(`Unexpected ${code[index]} at ${index}`);
+    }
+
+    function skipWhitespace() {
+        while (/\s/.test(code[index] ?? "")) {
+            index++;
+        }
+    }
+
+    function expect(token: string) {
+        skipWhitespace();
+        if (!code.startsWith(token, index)) {
+            fail();
+        }
+        index += token.length;
+    }
+
+    function string(): string {
+        const quote = code[index++];
+        let value = "";
+        while (code[index] !== quote) {
+            const char = code[index++];
+            if (char === undefined || (quote === "`" && char === "$")) {
+                fail();
+            }
+            if (char !== "\\") {
+                value += char;
+                continue;
+            }
+            const escaped = code[index++];
+            if (escaped === "x" || escaped === "u") {
+                const braced = escaped === "u" && code[index] === "{";
+                const length = escaped === "x" ? 2 : braced ? -1 : 4;
+                const end =
+                    length === -1 ? code.indexOf("}", index) : index + length;
+                const hex = code.substring(braced ? index + 1 : index, end);
+                if (!/^[0-9a-fA-F]+$/.test(hex)) {
+                    fail();
+                }
+                value += String.fromCodePoint(Number.parseInt(hex, 16));
+                index = braced ? end + 1 : end;
+            } else if (escaped !== "\n") {
+                value += StringEscapes[escaped] ?? escaped;
+            }
+        }
+        index++;
+        return value;
+    }
+
+    function key(): string {
+        skipWhitespace();
+        if (["'", '"', "`"].includes(code[index])) {
+            return string();
+        }
+        const identifier = /^[A-Za-z_$][\w$]*|^\d+/.exec(code.substring(index));
+        if (identifier === null) {
+            fail();
+        }
+        index += identifier[0].length;
+        return identifier[0];
+    }
+
+    function value(): unknown {
+        skipWhitespace();
+        const char = code[index];
+        if (char === "{") {
+            index++;
+            const object: Record<string, unknown> = {};
+            skipWhitespace();
+            while (code[index] !== "}") {
+                const name = key();
+                expect(":");
+                Object.defineProperty(object, name, {
+                    value: value(),
+                    enumerable: true,
+                    writable: true,
+                    configurable: true,
+                });
+                skipWhitespace();
+                if (code[index] !== "}") {
+                    expect(",");
+                    skipWhitespace();
+                }
+            }
+            index++;
+            return object;
+        }
+        if (char === "[") {
+            index++;
+            const array: unknown[] = [];
+            skipWhitespace();
+            while (code[index] !== "]") {
+                array.push(value());
+                skipWhitespace();
+                if (code[index] !== "]") {
+                    expect(",");
+                    skipWhitespace();
+                }
+            }
+            index++;
+            return array;
+        }
+        if (["'", '"', "`"].includes(char)) {
+            return string();
+        }
+        for (const [token, literal] of [
+            ["!0", true],
+            ["!1", false],
+            ["true", true],
+            ["false", false],
+            ["null", null],
+        ] as const) {
+            if (code.startsWith(token, index)) {
+                index += token.length;
+                return literal;
+            }
+        }
+        const number = /^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(
+            code.substring(index, index + 32),
+        );
+        if (number === null) {
+            fail();
+        }
+        index += number[0].length;
+        return Number(number[0]);
+    }
+
+    return value();
+}
+
+/**
+ * Route rules of the runtime config Nitro inlines in the server build:
+ * JSON, or an object literal when minified. Nitro doesn't write them to
+ * nitro.json. Returns every literal found, as strings and comments can
+ * contain one as well.
+ */
+export function inlinedRouteRules(code: string): RouteRules[] {
+    const found: RouteRules[] = [];
+    for (const match of code.matchAll(RouteRulesProperty)) {
+        try {
+            found.push(
+                parseLiteral(
+                    code,
+                    match.index + match[0].length - 1,
+                ) as RouteRules,
+            );
+        } catch {
+            // Code using the route rules, not the config
+        }
+    }
+    return found;
+}
@@ -0,0 +1,160 @@
+import type { AssetSyncPlan, ObjectHeaders } from "./assets";
+import {
+    CachePolicies,
+    type CloudFrontDistributionConfig,
+    type DefaultCacheBehavior,
+    OriginRequestPolicies,
+} from "./cloudfront";
+
+/**
+ * Renders CloudFormation values in the short form used in YAML templates.
+ */
+export function describeValue(value: unknown): string {
+    if (typeof value === "string") {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(describeValue).join(", ")}]`;
+    }
+    if (typeof value === "object" && value != null) {
+        const entries = Object.entries(value);
+        if (entries.length === 1) {
+            const [name, argument] = entries[0];
+            if (name === "Ref") {
+                return `!Ref ${argument}`;
+            }
+            if (name === "Fn::GetAtt" && Array.isArray(argument)) {
+                return `!GetAtt ${argument.join(".")}`;
+            }
+            if (name.startsWith("Fn::")) {
+                return `!${name.substring(4)} ${describeValue(argument)}`;
+            }
+        }
+    }
+    return JSON.stringify(value);
+}
+
+function policyName(
+    policies: Record<string, unknown>,
+    id: unknown,
+): string | undefined {
+    const name = Object.entries(policies).find(
+        ([, policyId]) => JSON.stringify(policyId) === JSON.stringify(id),
+    )?.[0];
+    return name ?? (id == null ? undefined : describeValue(id));
+}
+
+function describeCacheBehavior(
+    pathPattern: string,
+    behavior: DefaultCacheBehavior,
+): string[] {
+    const details = [
+        `methods ${behavior.AllowedMethods.join(",")}`,
+        `cache policy ${policyName(CachePolicies, behavior.CachePolicyId)}`,
+    ];
+    const originRequestPolicy = policyName(
+        OriginRequestPolicies,
+        behavior.OriginRequestPolicyId,
+    );
+    if (originRequestPolicy !== undefined) {
+        details.push(`origin request policy ${originRequestPolicy}`);
+    }
+    if (behavior.ResponseHeadersPolicyId !== undefined) {
+        details.push(
+            `response headers policy ${describeValue(behavior.ResponseHeadersPolicyId)}`,
+        );
+    }
+    return [
+        `  ${pathPattern} -> ${behavior.TargetOriginId}`,
+        `    ${details.join(", ")}`,
+        ...(behavior.FunctionAssociations ?? []).map(
+            (association) =>
+                `    ${association.EventType}: ${describeValue(association.FunctionARN)}`,
+        ),
+    ];
+}
+
+/**
+ * Human-readable summary of the origins, origin groups and cache behaviors
+ * of the generated distribution, in the order CloudFront evaluates them.
+ */
+export function describeDistribution(
+    config: Partial<CloudFrontDistributionConfig>,
+): string[] {
+    const lines = ["Origins:"];
+    for (const origin of config.Origins ?? []) {
+        lines.push(
+            `  ${origin.Id}: ${describeValue(origin.DomainName)}${origin.OriginPath ?? ""}`,
+        );
+    }
+    const originGroups = config.OriginGroups?.Items ?? [];
+    if (originGroups.length > 0) {
+        lines.push("Origin groups:");
+        for (const group of originGroups) {
+            const members = group.Members.Items.map(
+                (member) => member.OriginId,
+            );
+            lines.push(
+                `  ${group.Id}: ${members.join(" -> ")} on ${group.FailoverCriteria.StatusCodes.Items.join(", ")}`,
+            );
+        }
+    }
+    lines.push("Cache behaviors:");
+    for (const behavior of config.CacheBehaviors ?? []) {
+        lines.push(...describeCacheBehavior(behavior.PathPattern, behavior));
+    }
+    if (config.DefaultCacheBehavior !== undefined) {
+        lines.push(
+            ...describeCacheBehavior(
+                "* (default)",
+                config.DefaultCacheBehavior,
+            ),
+        );
+    }
+    return lines;
+}
+
+export function describeHeaders(headers: ObjectHeaders): string {
+    const described = [
+        ["Cache-Control", headers.CacheControl],
+        ["Content-Type", headers.ContentType],
+        ["Content-Encoding", headers.ContentEncoding],
+        ["Content-Disposition", headers.ContentDisposition],
+        ...Object.entries(headers.Metadata ?? {}).map(([name, value]) => [
+            `x-amz-meta-${name}`,
+            value,
+        ]),
+    ];
+    return described
+        .filter(([, value]) => value != null)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join(", ");
+}
+
+/**
+ * Lists the objects an upload would add, change or leave behind as stale.
+ */
+export function describeAssetPlan(
+    plan: AssetSyncPlan,
+    prefix: string,
+): string[] {
+    const lines: string[] = [];
+    for (const [marker, assets] of [
+        ["+", plan.added],
+        ["~", plan.changed],
+    ] as const) {
+        for (const asset of assets) {
+            lines.push(`${marker} ${prefix}${asset.key}`);
+            if (asset.headers !== undefined) {
+                lines.push(`    ${describeHeaders(asset.headers)}`);
+            }
+        }
+    }
+    for (const object of plan.stale) {
+        lines.push(`- ${prefix}${object.Key} (stale)`);
+    }
+    lines.push(
+        `${plan.added.length} to add, ${plan.changed.length} to change, ${plan.unchanged.length} unchanged, ${plan.stale.length} stale`,
+    );
+    return lines;
+}
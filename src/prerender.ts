@@ -0,0 +1,30 @@
+// Error pages are served for other routes, not at their own path
+const ErrorPages = new Set(["200.html", "404.html"]);
+const IndexPage = /(^|\/)index\.html$/;
+
+/**
+ * Maps the routes of prerendered pages to the keys of their HTML files, like
+ * `/about` to `about/index.html`, or to `about.html` when the pages aren't
+ * written to subfolders.
+ */
+export function prerenderedRoutes(pages: string[]): Record<string, string> {
+    const routes: Record<string, string> = {};
+    for (const page of pages) {
+        if (ErrorPages.has(page)) {
+            continue;
+        }
+        const route = `/${page.replace(IndexPage, "").replace(/\.html$/, "")}`;
+        // Subfolder indexes take precedence, like they do in Nitro
+        if (routes[route] === undefined || IndexPage.test(page)) {
+            routes[route] = page;
+        }
+    }
+    return routes;
+}
+
+// Top-level path segments of the routes, which need their own cache behavior
+export function topLevelRoutes(routes: Record<string, string>): string[] {
+    return Object.keys(routes).filter(
+        (route) => route !== "/" && route.lastIndexOf("/") === 0,
+    );
+}
@@ -0,0 +1,10 @@
+import type Aws from "serverless/aws";
+import type { S3Client } from "./upload";
+
+// Members of the AWS provider of Serverless v3 missing from its type definitions
+export interface AwsProvider extends Aws {
+    // The AWS SDK v2 the provider makes its requests with
+    sdk: { S3: new (options: object) => S3Client };
+    // Prefix of the artifacts in the deployment bucket, "serverless" by default
+    getDeploymentPrefix(): string;
+}
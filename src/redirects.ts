@@ -0,0 +1,201 @@
+import { createHash } from "node:crypto";
+import type { ViewerRequestSnippet } from "./cloudfront";
+
+export interface RedirectRule {
+    // Path to match: exact, or with * matching a path segment, or the rest
+    // of the path at the end
+    source: string;
+    // Path or URL, in which each * is replaced by what it matched in the source
+    destination: string;
+    statusCode?: 301 | 302 | 307 | 308;
+    // Only redirect requests for this host name
+    host?: string;
+    preserveQueryString?: boolean;
+}
+
+export interface RewriteRule {
+    source: string;
+    destination: string;
+    host?: string;
+}
+
+export const DefaultRedirectStatusCode = 301;
+
+// Import source of the KeyValueStore, in the .serverless directory
+export const RedirectStoreFile = "frontend-redirects.json";
+
+const StatusDescriptions: Record<number, string> = {
+    301: "Moved Permanently",
+    302: "Found",
+    307: "Temporary Redirect",
+    308: "Permanent Redirect",
+};
+
+// Redirects with an exact source and no host can be stored in a KeyValueStore
+export function isStorableRedirect(rule: RedirectRule): boolean {
+    return rule.host === undefined && !rule.source.includes("*");
+}
+
+function wildcardCount(pattern: string): number {
+    return pattern.split("*").length - 1;
+}
+
+function validateRule(kind: string, rule: RedirectRule | RewriteRule) {
+    if (!rule.source?.startsWith("/")) {
+        throw new Error(
+            `Invalid ${kind} source '${rule.source}', it should start with /`,
+        );
+    }
+    if (typeof rule.destination !== "string") {
+        throw new Error(`Missing destination for ${kind} of ${rule.source}`);
+    }
+    if (wildcardCount(rule.destination) > wildcardCount(rule.source)) {
+        throw new Error(
+            `The destination of the ${kind} of ${rule.source} has more wildcards than its source`,
+        );
+    }
+}
+
+function sourceRegExp(source: string): string {
+    const parts = source
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"));
+    const pattern = parts
+        .map((part, index) =>
+            index === 0
+                ? part
+                : // A wildcard at the end matches the rest of the path
+                  (index === parts.length - 1 && part === ""
+                      ? "(.*)"
+                      : "([^\\/]+)") + part,
+        )
+        .join("");
+    return `/^${pattern}$/`;
+}
+
+// JavaScript expression for the destination, using the matched wildcards
+function destinationExpression(destination: string): string {
+    return destination
+        .split("*")
+        .map((part, index) =>
+            index === 0
+                ? JSON.stringify(part)
+                : `match[${index}] + ${JSON.stringify(part)}`,
+        )
+        .join(" + ");
+}
+
+function ruleCondition(rule: RedirectRule | RewriteRule): string {
+    const match = `(match = ${sourceRegExp(rule.source)}.exec(request.uri))`;
+    return rule.host === undefined
+        ? match
+        : `host === ${JSON.stringify(rule.host.toLowerCase())} && ${match}`;
+}
+
+/**
+ * Value of a redirect in the KeyValueStore, keyed by its source:
+ * `[statusCode, destination, preserveQueryString]`.
+ */
+export function storedRedirect(rule: RedirectRule): string {
+    return JSON.stringify([
+        rule.statusCode ?? DefaultRedirectStatusCode,
+        rule.destination,
+        rule.preserveQueryString ?? true,
+    ]);
+}
+
+/**
+ * Import source for a KeyValueStore with the redirects, in the format
+ * CloudFront reads from S3.
+ */
+export function redirectStoreData(rules: RedirectRule[]): string {
+    return JSON.stringify({
+        data: rules.map((rule) => ({
+            key: rule.source,
+            value: storedRedirect(rule),
+        })),
+    });
+}
+
+export function redirectStoreHash(data: string): string {
+    return createHash("sha256").update(data).digest("hex").substring(0, 12);
+}
+
+/**
+ * Viewer-request snippet applying the redirects, then the first matching
+ * rewrite. With a KeyValueStore, exact redirects missing from the code are
+ * looked up in the store associated with the function.
+ */
+export function redirectsSnippet(
+    redirects: RedirectRule[],
+    rewrites: RewriteRule[],
+    keyValueStore?: ViewerRequestSnippet["keyValueStore"],
+): ViewerRequestSnippet {
+    for (const rule of redirects) {
+        validateRule("redirect", rule);
+        const statusCode = rule.statusCode ?? DefaultRedirectStatusCode;
+        if (StatusDescriptions[statusCode] === undefined) {
+            throw new Error(
+                `Invalid status code ${rule.statusCode} for the redirect of ${rule.source}`,
+            );
+        }
+    }
+    for (const rule of rewrites) {
+        validateRule("rewrite", rule);
+        if (/^https?:/.test(rule.destination)) {
+            throw new Error(
+                `The destination of the rewrite of ${rule.source} should be a path`,
+            );
+        }
+    }
+    const code = [
+        'var host = request.headers.host ? request.headers.host.value.toLowerCase() : "";',
+        "var match;",
+        // Query strings are passed on as received
+        "function queryString() {",
+        "var parts = [];",
+        "for (var name in request.querystring) {",
+        "var value = request.querystring[name];",
+        '(value.multiValue || [value]).forEach(function (item) { parts.push(item.value === "" ? name : name + "=" + item.value); });',
+        "}",
+        'return parts.length > 0 ? "?" + parts.join("&") : "";',
+        "}",
+        "function redirect(statusCode, location, preserveQueryString) {",
+        "if (preserveQueryString) { location += queryString(); }",
+        `return { statusCode: statusCode, statusDescription: ${JSON.stringify(StatusDescriptions)}[statusCode], headers: { location: { value: location } } };`,
+        "}",
+        ...redirects.map((rule) => {
+            const statusCode = rule.statusCode ?? DefaultRedirectStatusCode;
+            const preserve = rule.preserveQueryString ?? true;
+            return `if (${ruleCondition(rule)}) { return redirect(${statusCode}, ${destinationExpression(rule.destination)}, ${preserve}); }`;
+        }),
+        ...(keyValueStore === undefined
+            ? []
+            : [
+                  "try {",
+                  "var stored = JSON.parse(await redirectStore.get(request.uri));",
+                  "return redirect(stored[0], stored[1], stored[2]);",
+                  // Missing keys are errors
+                  "} catch (err) {}",
+              ]),
+        rewrites
+            .map(
+                (rule) =>
+                    `if (${ruleCondition(rule)}) { request.uri = ${destinationExpression(rule.destination)}; }`,
+            )
+            .join(" else "),
+    ];
+    return {
+        logicalId: "SiteRedirects",
+        name: "redirects",
+        comment: "Redirects and rewrites",
+        code: code.filter((line) => line !== "").join(" "),
+        ...(keyValueStore === undefined
+            ? {}
+            : {
+                  preamble:
+                      'import cf from "cloudfront"; var redirectStore = cf.kvs();',
+                  keyValueStore,
+              }),
+    };
+}
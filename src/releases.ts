@@ -0,0 +1,150 @@
+import { createHash } from "node:crypto";
+import type Aws from "serverless/aws";
+import { MetadataPrefix, ReleasesPrefix } from "./s3";
+
+export interface ReleaseRecord {
+    id: string;
+    createdAt: string;
+}
+
+/**
+ * The resources and outputs of a site as deployed with the release,
+ * including those Serverless compiles for its functions, whose code is
+ * read from the packages kept with the release. Packages are the
+ * artifacts of the functions, relative to the service directory.
+ */
+export interface ReleaseSnapshot {
+    releaseId: string;
+    packages: Record<string, string>;
+    resources: Record<string, Aws.CloudFormationResource>;
+    outputs: Record<string, Aws.Output>;
+}
+
+export interface CloudFormationTemplate {
+    Resources: Record<string, Aws.CloudFormationResource>;
+    Outputs?: Record<string, Aws.Output>;
+}
+
+// Written while packaging, next to the artifacts of the site
+export const ReleaseSnapshotFile = ".serverless/frontend-release.json";
+
+export const ReleaseRecordsPrefix = `${MetadataPrefix}/releases/`;
+
+export function releaseRecordKey(releaseId: string): string {
+    return `${ReleaseRecordsPrefix}${releaseId}.json`;
+}
+
+// Records are next to the directories with the files of each release
+export function isReleaseRecordKey(key: string): boolean {
+    return (
+        key.startsWith(ReleaseRecordsPrefix) &&
+        key.endsWith(".json") &&
+        !key.substring(ReleaseRecordsPrefix.length).includes("/")
+    );
+}
+
+export function releaseFilesPrefix(releaseId: string): string {
+    return `${ReleaseRecordsPrefix}${releaseId}/`;
+}
+
+export function releaseSnapshotKey(releaseId: string): string {
+    return `${releaseFilesPrefix(releaseId)}release.json`;
+}
+
+export function releasePackageKey(
+    releaseId: string,
+    functionName: string,
+): string {
+    return `${releaseFilesPrefix(releaseId)}${functionName}.zip`;
+}
+
+/**
+ * Hash of the files in a function package, from the names, CRC-32s and
+ * sizes in its central directory. Unlike a hash of the package, it doesn't
+ * change with the order or the dates of the entries.
+ */
+export function packageContentHash(zip: Buffer): string {
+    const end = zip.lastIndexOf(
+        Buffer.from([0x50, 0x4b, 0x05, 0x06]),
+        zip.length - 22,
+    );
+    if (end === -1) {
+        throw new Error("Not a zip file");
+    }
+    const count = zip.readUInt16LE(end + 10);
+    let offset = zip.readUInt32LE(end + 16);
+    // Too large for the central directory, ZIP64 isn't read
+    if (count === 0xffff || offset === 0xffffffff) {
+        return createHash("sha256").update(zip).digest("hex");
+    }
+    const entries = new Set<string>();
+    for (let i = 0; i < count; i++) {
+        const nameLength = zip.readUInt16LE(offset + 28);
+        const name = zip.toString(
+            "utf8",
+            offset + 46,
+            offset + 46 + nameLength,
+        );
+        const crc = zip.readUInt32LE(offset + 16);
+        const size = zip.readUInt32LE(offset + 24);
+        entries.add(`${name}:${crc}:${size}`);
+        offset +=
+            46 +
+            nameLength +
+            zip.readUInt16LE(offset + 30) +
+            zip.readUInt16LE(offset + 32);
+    }
+    return createHash("sha256")
+        .update([...entries].sort().join("\n"))
+        .digest("hex");
+}
+
+export function releaseOriginPath(releaseId: string): string {
+    return `/${ReleasesPrefix}/${releaseId}`;
+}
+
+export function releaseIdFromOriginPath(
+    originPath: string | undefined,
+): string | undefined {
+    const prefix = `/${ReleasesPrefix}/`;
+    if (originPath === undefined || !originPath.startsWith(prefix)) {
+        return undefined;
+    }
+    return originPath.substring(prefix.length).split("/")[0];
+}
+
+/**
+ * The deployed template with the resources and outputs of the site
+ * replaced by those of the release, leaving the rest of the stack as it
+ * is. Without a snapshot of the deployed release, resources it doesn't
+ * share with the release are kept.
+ */
+export function rollbackTemplate<T extends CloudFormationTemplate>(
+    deployed: T,
+    current: ReleaseSnapshot | undefined,
+    release: ReleaseSnapshot,
+): T {
+    const without = <V>(values: Record<string, V>, logicalIds: string[]) =>
+        Object.fromEntries(
+            Object.entries(values).filter(
+                ([logicalId]) => !logicalIds.includes(logicalId),
+            ),
+        );
+    return {
+        ...deployed,
+        Resources: {
+            ...without(
+                deployed.Resources,
+                Object.keys(current?.resources ?? {}),
+            ),
+            ...release.resources,
+        },
+        Outputs: {
+            ...without(
+                deployed.Outputs ?? {},
+                Object.keys(current?.outputs ?? {}),
+            ),
+            ...release.outputs,
+        },
+    };
+}
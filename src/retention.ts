@@ -0,0 +1,86 @@
+import type { ReleaseRecord } from "./releases";
+import { MetadataPrefix } from "./s3";
+
+export interface RetentionConfig {
+    days?: number;
+    deployments?: number;
+}
+
+export interface StaleSince {
+    since: string;
+    deployments: number;
+}
+
+export type StaleObjects = Record<string, StaleSince>;
+
+export const StaleObjectsKey = `${MetadataPrefix}/stale.json`;
+
+const DayInMilliseconds = 24 * 60 * 60 * 1000;
+
+/**
+ * Updates when each stale object was first seen as stale, and for how many
+ * deployments it has been stale. Objects that are no longer stale are dropped.
+ */
+export function trackStaleObjects(
+    previous: StaleObjects,
+    staleKeys: string[],
+    now: Date,
+    newDeployment: boolean,
+): StaleObjects {
+    const tracked: StaleObjects = {};
+    for (const key of staleKeys) {
+        const entry = previous[key];
+        tracked[key] =
+            entry === undefined
+                ? { since: now.toISOString(), deployments: 1 }
+                : {
+                      since: entry.since,
+                      deployments: entry.deployments + (newDeployment ? 1 : 0),
+                  };
+    }
+    return tracked;
+}
+
+/**
+ * Whether something stale has outlived any of the configured retention
+ * limits: the grace period in days, or the number of newer deployments.
+ */
+export function isExpired(
+    stale: StaleSince,
+    retention: RetentionConfig,
+    now: Date,
+): boolean {
+    const age = now.getTime() - new Date(stale.since).getTime();
+    return (
+        (retention.days !== undefined &&
+            age >= retention.days * DayInMilliseconds) ||
+        (retention.deployments !== undefined &&
+            stale.deployments > retention.deployments)
+    );
+}
+
+/**
+ * Releases become stale when a newer release is deployed. The current
+ * release is never expired, even if newer releases exist after a rollback.
+ */
+export function expiredReleases(
+    releases: ReleaseRecord[],
+    currentReleaseId: string | undefined,
+    retention: RetentionConfig,
+    now: Date,
+): ReleaseRecord[] {
+    const sorted = [...releases].sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt),
+    );
+    return sorted.filter((release, index) => {
+        const newer = sorted.slice(index + 1);
+        if (release.id === currentReleaseId || newer.length === 0) {
+            return false;
+        }
+        return isExpired(
+            { since: newer[0].createdAt, deployments: newer.length },
+            retention,
+            now,
+        );
+    });
+}
@@ -0,0 +1,216 @@
+import { createHash } from "node:crypto";
+import {
+    ServerFunctionCachePolicyConfig,
+    type ViewerRequestSnippet,
+} from "./cloudfront";
+import {
+    type ResponseHeadersPolicyConfig,
+    SecurityHeaderSettings,
+} from "./headers";
+
+// Route rules of Nitro (https://nitro.build/config#routerules), as far as
+// they apply to CloudFront
+export interface RouteRule {
+    cache?: false | { maxAge?: number; swr?: boolean };
+    swr?: boolean | number;
+    isr?: boolean | number;
+    headers?: Record<string, string>;
+    redirect?: string | { to: string; statusCode?: number };
+    prerender?: boolean;
+}
+
+export type RouteRules = Record<string, RouteRule>;
+
+// Nitro caches for a second unless maxAge is given
+const DefaultMaxAge = 1;
+const MaxTTL = 31536000;
+const DefaultRedirectStatusCode = 307;
+
+const RedirectStatusDescriptions: Record<number, string> = {
+    301: "Moved Permanently",
+    302: "Found",
+    303: "See Other",
+    307: "Temporary Redirect",
+    308: "Permanent Redirect",
+};
+
+function shortHash(value: string): string {
+    return createHash("sha1").update(value).digest("hex").substring(0, 8);
+}
+
+// Path before /** of a wildcard route, undefined for other routes
+function wildcardPrefix(route: string): string | undefined {
+    return route.endsWith("/**") ? route.slice(0, -3) : undefined;
+}
+
+function covers(wildcard: string, route: string): boolean {
+    const prefix = wildcardPrefix(wildcard);
+    return (
+        prefix !== undefined &&
+        (route === prefix || route.startsWith(`${prefix}/`) || prefix === "")
+    );
+}
+
+/**
+ * The rules of each route, merged with those of the wildcard routes covering
+ * it like Nitro does, ordered for CloudFront: exact routes first, then the
+ * most specific wildcard routes.
+ */
+export function resolveRouteRules(
+    rules: RouteRules,
+): Array<{ route: string; rule: RouteRule }> {
+    const routes = Object.keys(rules);
+    return routes
+        .map((route) => {
+            const matching = routes
+                .filter((other) => other === route || covers(other, route))
+                .sort((a, b) => a.length - b.length);
+            const rule: RouteRule = {};
+            for (const other of matching) {
+                Object.assign(rule, rules[other], {
+                    headers: { ...rule.headers, ...rules[other].headers },
+                });
+            }
+            if (Object.keys(rule.headers ?? {}).length === 0) {
+                delete rule.headers;
+            }
+            return { route, rule };
+        })
+        .sort(
+            (a, b) =>
+                Number(wildcardPrefix(a.route) !== undefined) -
+                    Number(wildcardPrefix(b.route) !== undefined) ||
+                b.route.length - a.route.length,
+        );
+}
+
+/**
+ * CloudFront path pattern matching the route, like `blog/*` for `/blog/**`.
+ * Parameters match any path, as CloudFront patterns don't stop at slashes.
+ */
+export function routePathPattern(route: string): string {
+    return route
+        .replace(/^\//, "")
+        .replace(/\*\*$/, "*")
+        .replace(/(^|\/):[^/]+/g, "$1*");
+}
+
+/**
+ * Seconds to cache responses of the route, false when caching is disabled,
+ * undefined when the rule doesn't say.
+ */
+export function routeCacheTTL(rule: RouteRule): number | false | undefined {
+    if (rule.cache === false || rule.swr === false || rule.isr === false) {
+        return false;
+    }
+    const ttl = [rule.cache?.maxAge, rule.swr, rule.isr].find(
+        (value) => typeof value === "number",
+    );
+    if (ttl !== undefined) {
+        return ttl;
+    }
+    if (rule.isr === true) {
+        // Until the next deployment invalidates it
+        return MaxTTL;
+    }
+    if (rule.cache !== undefined || rule.swr === true) {
+        return DefaultMaxAge;
+    }
+    return undefined;
+}
+
+// Cache policy for SSR responses, cached for the TTL unless they say otherwise
+export function routeCachePolicyConfig(ttl: number) {
+    return {
+        ...ServerFunctionCachePolicyConfig,
+        Name: { "Fn::Sub": `\${AWS::StackName}-ssr-${ttl}` },
+        Comment: { "Fn::Sub": `SSR cached for ${ttl}s for \${AWS::StackName}` },
+        DefaultTTL: ttl,
+        MaxTTL: Math.max(ttl, MaxTTL),
+    };
+}
+
+/**
+ * Response headers policy with the headers of a route rule, on top of the
+ * configured response headers of its cache behavior.
+ */
+export function routeHeadersPolicy(
+    headers: Record<string, string>,
+    base?: ResponseHeadersPolicyConfig,
+) {
+    const {
+        Name: _name,
+        Comment: _comment,
+        SecurityHeadersConfig,
+        ...baseConfig
+    } = base ?? {};
+    const hash = shortHash(
+        JSON.stringify(
+            base === undefined
+                ? headers
+                : [headers, SecurityHeadersConfig, baseConfig],
+        ),
+    );
+    const names = new Set(
+        Object.keys(headers).map((header) => header.toLowerCase()),
+    );
+    // The headers of the route take precedence over the security headers
+    const security = Object.fromEntries(
+        Object.entries(SecurityHeadersConfig ?? {}).filter(
+            ([setting]) =>
+                !Object.entries(SecurityHeaderSettings).some(
+                    ([header, name]) => name === setting && names.has(header),
+                ),
+        ),
+    );
+    return {
+        logicalId: `SiteRouteHeaders${hash}`,
+        properties: {
+            ResponseHeadersPolicyConfig: {
+                ...baseConfig,
+                ...(Object.keys(security).length === 0
+                    ? {}
+                    : { SecurityHeadersConfig: security }),
+                Name: { "Fn::Sub": `\${AWS::StackName}-headers-${hash}` },
+                Comment: "Headers from route rules",
+                CustomHeadersConfig: {
+                    Items: [
+                        ...(base?.CustomHeadersConfig?.Items ?? []).filter(
+                            (item) => !names.has(item.Header.toLowerCase()),
+                        ),
+                        ...Object.entries(headers).map(([Header, Value]) => ({
+                            Header,
+                            Value: String(Value),
+                            Override: true,
+                        })),
+                    ],
+                },
+            },
+        },
+    };
+}
+
+/**
+ * Responds with the redirect of the route rule. A target ending in /**
+ * receives the rest of the path of a wildcard route.
+ */
+export function redirectSnippet(
+    route: string,
+    redirect: Exclude<RouteRule["redirect"], undefined>,
+): ViewerRequestSnippet {
+    const { to, statusCode = DefaultRedirectStatusCode } =
+        typeof redirect === "string" ? { to: redirect } : redirect;
+    const prefix = wildcardPrefix(route);
+    const target = wildcardPrefix(to);
+    const location =
+        prefix !== undefined && target !== undefined
+            ? `${JSON.stringify(target)} + request.uri.substring(${prefix.length})`
+            : JSON.stringify(to);
+    const hash = shortHash(`${route} ${to} ${statusCode}`);
+    return {
+        logicalId: `SiteRedirect${hash}`,
+        name: `redirect-${hash}`,
+        comment: `Redirect ${route}`,
+        code: `return { statusCode: ${statusCode}, statusDescription: ${JSON.stringify(RedirectStatusDescriptions[statusCode] ?? "Redirect")}, headers: { location: { value: ${location} } } };`,
+    };
+}
@@ -0,0 +1,85 @@
+export interface AssetRule {
+    pattern: string;
+    cacheControl?: string;
+    contentType?: string;
+    contentDisposition?: string;
+    metadata?: Record<string, string>;
+}
+
+export interface AssetHeaders {
+    CacheControl: string;
+    ContentType?: string | null;
+    ContentDisposition?: string;
+    Metadata?: Record<string, string>;
+}
+
+/**
+ * Converts a glob pattern to a regular expression. Supports `*`, `**`, `?`
+ * and `{a,b}`. Patterns without a slash match the file name in any directory,
+ * a leading slash anchors the pattern to the root of the build output.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.replace(/^\//, "");
+    if (!glob.includes("/")) {
+        pattern = `**/${pattern}`;
+    }
+    let source = "";
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" && pattern[i + 1] === "*") {
+            i++;
+            if (pattern[i + 1] === "/") {
+                // `**/` also matches no directory at all
+                i++;
+                source += "(?:.*/)?";
+            } else {
+                source += ".*";
+            }
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "{") {
+            braces++;
+            source += "(?:";
+        } else if (char === "}" && braces > 0) {
+            braces--;
+            source += ")";
+        } else if (char === "," && braces > 0) {
+            source += "|";
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Applies all matching rules in order, later rules overriding earlier ones.
+ */
+export function applyAssetRules(
+    key: string,
+    defaults: AssetHeaders,
+    rules: AssetRule[],
+): AssetHeaders {
+    const headers: AssetHeaders = { ...defaults };
+    for (const rule of rules) {
+        if (!globToRegExp(rule.pattern).test(key)) {
+            continue;
+        }
+        if (rule.cacheControl !== undefined) {
+            headers.CacheControl = rule.cacheControl;
+        }
+        if (rule.contentType !== undefined) {
+            headers.ContentType = rule.contentType;
+        }
+        if (rule.contentDisposition !== undefined) {
+            headers.ContentDisposition = rule.contentDisposition;
+        }
+        if (rule.metadata !== undefined) {
+            headers.Metadata = { ...headers.Metadata, ...rule.metadata };
+        }
+    }
+    return headers;
+}
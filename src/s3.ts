@@ -42,6 +42,18 @@ export const StandardSiteBucketPolicy = {
                     },
                 },
             },
+            {
+                Sid: "DenyMetadataForCloudFront",
+                Effect: "Deny",
+                Principal: {
+                    Service: "cloudfront.amazonaws.com",
+                },
+                Action: ["s3:GetObject"],
+                Resource: {
+                    //biome-ignore lint/suspicious/noTemplateCurlyInString: CloudFormation
+                    "Fn::Sub": "${SiteBucket.Arn}/_frontend/*",
+                },
+            },
         ],
     },
 };
@@ -50,3 +62,8 @@ export const StandardCacheControl = {
     normal: "public,max-age=0,s-maxage=86400,stale-while-revalidate=8640",
     immutable: "public,max-age=31536000,immutable",
 };
+
+export const ReleasesPrefix = "releases";
+
+// Plugin metadata, not served through CloudFront
+export const MetadataPrefix = "_frontend";
@@ -0,0 +1,139 @@
+// Site names are used in logical IDs, function names and artifact paths
+const SiteNamePattern = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+export function validateSiteName(name: string) {
+    if (!SiteNamePattern.test(name)) {
+        throw new Error(
+            `Invalid site name '${name}', use lowercase letters, digits and dashes`,
+        );
+    }
+}
+
+export function pascalCase(name: string): string {
+    return name.replace(/(^|-)(\w)/g, (_match, _dash, char: string) =>
+        char.toUpperCase(),
+    );
+}
+
+/**
+ * Logical ID of a resource or output of the site, e.g. AdminSiteBucket for
+ * SiteBucket of the admin site. The default site keeps the logical ID.
+ */
+export function siteLogicalId(
+    siteName: string | undefined,
+    logicalId: string,
+): string {
+    return siteName === undefined
+        ? logicalId
+        : `${pascalCase(siteName)}${logicalId}`;
+}
+
+// Key of a function of the site in serverless.yml, e.g. admin-server
+export function siteFunctionKey(
+    siteName: string | undefined,
+    key: string,
+): string {
+    return siteName === undefined ? key : `${siteName}-${key}`;
+}
+
+const SubstitutionPattern = /\$\{([\w:]+)(\.[^}]*)?\}/g;
+
+/**
+ * Renames the logical IDs in the references of a CloudFormation template
+ * fragment: Ref, Fn::GetAtt, Fn::Sub and DependsOn. With a suffix, stack
+ * names in Fn::Sub get it too, to keep the names of resources like cache
+ * policies unique between sites.
+ */
+export function renameReferences<T>(
+    value: T,
+    renames: Map<string, string>,
+    stackNameSuffix = "",
+): T {
+    const rename = (logicalId: string) => renames.get(logicalId) ?? logicalId;
+    const renameSub = (template: string) =>
+        template.replace(
+            SubstitutionPattern,
+            (match, name: string, attribute = "") =>
+                name === "AWS::StackName"
+                    ? `\${AWS::StackName}${stackNameSuffix}`
+                    : renames.has(name)
+                      ? `\${${rename(name)}${attribute}}`
+                      : match,
+        );
+    const visit = (node: unknown, key?: string): unknown => {
+        if (Array.isArray(node)) {
+            return node.map((item) => visit(item, key));
+        }
+        if (typeof node === "string") {
+            switch (key) {
+                case "Ref":
+                case "DependsOn":
+                    return rename(node);
+                case "Fn::GetAtt":
+                    return node.includes(".")
+                        ? node.replace(/^[^.]+/, rename)
+                        : rename(node);
+                case "Fn::Sub":
+                    return renameSub(node);
+            }
+            return node;
+        }
+        if (typeof node === "object" && node !== null) {
+            const entries = Object.entries(node).map(([name, child]) => {
+                if (name === "Fn::GetAtt" && Array.isArray(child)) {
+                    return [name, [rename(child[0]), ...child.slice(1)]];
+                }
+                if (name === "Fn::Sub" && Array.isArray(child)) {
+                    return [
+                        name,
+                        [renameSub(child[0]), visit(child[1], undefined)],
+                    ];
+                }
+                return [name, visit(child, name)];
+            });
+            return Object.fromEntries(entries);
+        }
+        return node;
+    };
+    return visit(value) as T;
+}
+
+/**
+ * Logical IDs a CloudFormation template fragment refers to with Ref,
+ * Fn::GetAtt, Fn::Sub and DependsOn, including pseudo parameters.
+ */
+export function referencedLogicalIds(value: unknown): Set<string> {
+    const logicalIds = new Set<string>();
+    const visit = (node: unknown, key?: string) => {
+        if (Array.isArray(node)) {
+            if (key === "Fn::GetAtt") {
+                logicalIds.add(String(node[0]));
+                return;
+            }
+            for (const item of node) {
+                visit(item, key);
+            }
+        } else if (typeof node === "string") {
+            switch (key) {
+                case "Ref":
+                case "DependsOn":
+                    logicalIds.add(node);
+                    break;
+                case "Fn::GetAtt":
+                    logicalIds.add(node.split(".")[0]);
+                    break;
+                case "Fn::Sub":
+                    for (const [, name] of node.matchAll(SubstitutionPattern)) {
+                        logicalIds.add(name);
+                    }
+                    break;
+            }
+        } else if (typeof node === "object" && node !== null) {
+            for (const [name, child] of Object.entries(node)) {
+                visit(child, name);
+            }
+        }
+    };
+    visit(value);
+    return logicalIds;
+}
@@ -0,0 +1,90 @@
+import { createReadStream } from "node:fs";
+import fs from "node:fs/promises";
+import type { LocalAsset, ObjectHeaders } from "./assets";
+import { withRetry } from "./concurrency";
+
+export const DefaultMultipartChunkSize = 8 * 1024 * 1024;
+
+// Minimal subset of the AWS SDK v2 S3 client used for uploading
+type S3Operation<R = object> = (params: Record<string, unknown>) => {
+    promise(): Promise<R>;
+};
+
+export interface S3Client {
+    putObject: S3Operation;
+    createMultipartUpload: S3Operation<{ UploadId: string }>;
+    uploadPart: S3Operation<{ ETag: string }>;
+    completeMultipartUpload: S3Operation;
+    abortMultipartUpload: S3Operation;
+}
+
+export type ObjectParams = Partial<ObjectHeaders> & {
+    Bucket: string;
+    Key: string;
+};
+
+export async function uploadAsset(
+    s3: S3Client,
+    asset: LocalAsset,
+    params: ObjectParams,
+    chunkSize: number = DefaultMultipartChunkSize,
+): Promise<void> {
+    if (asset.size <= chunkSize) {
+        await withRetry(async () =>
+            s3
+                .putObject({
+                    ...params,
+                    Body: await fs.readFile(asset.path),
+                })
+                .promise(),
+        );
+        return;
+    }
+
+    const { UploadId } = await withRetry(() =>
+        s3.createMultipartUpload({ ...params }).promise(),
+    );
+    try {
+        const parts: Array<{ ETag: string; PartNumber: number }> = [];
+        for (let start = 0; start < asset.size; start += chunkSize) {
+            const end = Math.min(start + chunkSize, asset.size);
+            const PartNumber = parts.length + 1;
+            const { ETag } = await withRetry(() =>
+                s3
+                    .uploadPart({
+                        Bucket: params.Bucket,
+                        Key: params.Key,
+                        UploadId,
+                        PartNumber,
+                        ContentLength: end - start,
+                        Body: createReadStream(asset.path, {
+                            start,
+                            end: end - 1,
+                        }),
+                    })
+                    .promise(),
+            );
+            parts.push({ ETag, PartNumber });
+        }
+        await withRetry(() =>
+            s3
+                .completeMultipartUpload({
+                    Bucket: params.Bucket,
+                    Key: params.Key,
+                    UploadId,
+                    MultipartUpload: { Parts: parts },
+                })
+                .promise(),
+        );
+    } catch (err) {
+        await s3
+            .abortMultipartUpload({
+                Bucket: params.Bucket,
+                Key: params.Key,
+                UploadId,
+            })
+            .promise()
+            .catch(() => {});
+        throw err;
+    }
+}
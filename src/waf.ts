@@ -0,0 +1,170 @@
+export interface WafConfig {
+    // AWS managed rule groups, like AWSManagedRulesCommonRuleSet
+    managedRules?: Array<
+        string | { name: string; vendor?: string; excludedRules?: string[] }
+    >;
+    // Requests per 5 minutes from a single IP address
+    rateLimit?: number;
+    allowedIps?: string[];
+    blockedIps?: string[];
+    allowedCountries?: string[];
+    blockedCountries?: string[];
+}
+
+type WafResource = { Type: string; Properties: Record<string, unknown> };
+
+function visibilityConfig(metricName: string) {
+    return {
+        CloudWatchMetricsEnabled: true,
+        MetricName: metricName,
+        SampledRequestsEnabled: true,
+    };
+}
+
+function geoMatch(countryCodes: string[]) {
+    return { GeoMatchStatement: { CountryCodes: countryCodes } };
+}
+
+/**
+ * IP sets for the addresses, one per IP version as WAF requires. Returns the
+ * statement matching any of them.
+ */
+function ipSetStatement(
+    resources: Record<string, WafResource>,
+    name: "Allowed" | "Blocked",
+    addresses: string[],
+) {
+    const statements = (["IPV4", "IPV6"] as const)
+        .map((version) => {
+            const versionAddresses = addresses.filter(
+                (address) => address.includes(":") === (version === "IPV6"),
+            );
+            if (versionAddresses.length === 0) {
+                return undefined;
+            }
+            const logicalId = `SiteWaf${name}${version === "IPV4" ? "IPv4" : "IPv6"}`;
+            resources[logicalId] = {
+                Type: "AWS::WAFv2::IPSet",
+                Properties: {
+                    Name: {
+                        "Fn::Sub": `\${AWS::StackName}-${name.toLowerCase()}-${version.toLowerCase()}`,
+                    },
+                    Scope: "CLOUDFRONT",
+                    IPAddressVersion: version,
+                    Addresses: versionAddresses,
+                },
+            };
+            return {
+                IPSetReferenceStatement: {
+                    Arn: { "Fn::GetAtt": [logicalId, "Arn"] },
+                },
+            };
+        })
+        .filter((statement) => statement !== undefined);
+    return statements.length === 1
+        ? statements[0]
+        : { OrStatement: { Statements: statements } };
+}
+
+/**
+ * Web ACL for the distribution, with its IP sets. Allowed IP addresses skip
+ * the other rules, which block requests in the order of the config.
+ */
+export function wafResources(config: WafConfig): Record<string, WafResource> {
+    const resources: Record<string, WafResource> = {};
+    const rules: Array<{
+        name: string;
+        statement: Record<string, unknown>;
+        action?: "Allow" | "Block";
+    }> = [];
+    if (config.allowedIps?.length) {
+        rules.push({
+            name: "allowed-ips",
+            statement: ipSetStatement(resources, "Allowed", config.allowedIps),
+            action: "Allow",
+        });
+    }
+    if (config.blockedIps?.length) {
+        rules.push({
+            name: "blocked-ips",
+            statement: ipSetStatement(resources, "Blocked", config.blockedIps),
+            action: "Block",
+        });
+    }
+    if (config.blockedCountries?.length) {
+        rules.push({
+            name: "blocked-countries",
+            statement: geoMatch(config.blockedCountries),
+            action: "Block",
+        });
+    }
+    if (config.allowedCountries?.length) {
+        rules.push({
+            name: "other-countries",
+            statement: {
+                NotStatement: {
+                    Statement: geoMatch(config.allowedCountries),
+                },
+            },
+            action: "Block",
+        });
+    }
+    if (config.rateLimit !== undefined) {
+        rules.push({
+            name: "rate-limit",
+            statement: {
+                RateBasedStatement: {
+                    Limit: config.rateLimit,
+                    AggregateKeyType: "IP",
+                },
+            },
+            action: "Block",
+        });
+    }
+    for (const group of config.managedRules ?? []) {
+        const {
+            name,
+            vendor = "AWS",
+            excludedRules = [],
+        } = typeof group === "string" ? { name: group } : group;
+        rules.push({
+            name,
+            statement: {
+                ManagedRuleGroupStatement: {
+                    VendorName: vendor,
+                    Name: name,
+                    // Excluded rules only count matching requests
+                    ...(excludedRules.length === 0
+                        ? {}
+                        : {
+                              RuleActionOverrides: excludedRules.map(
+                                  (rule) => ({
+                                      Name: rule,
+                                      ActionToUse: { Count: {} },
+                                  }),
+                              ),
+                          }),
+                },
+            },
+        });
+    }
+    resources.SiteWebACL = {
+        Type: "AWS::WAFv2::WebACL",
+        Properties: {
+            Name: { "Fn::Sub": `\${AWS::StackName}-site` },
+            Scope: "CLOUDFRONT",
+            DefaultAction: { Allow: {} },
+            VisibilityConfig: visibilityConfig("site"),
+            Rules: rules.map(({ name, statement, action }, priority) => ({
+                Name: name,
+                Priority: priority,
+                Statement: statement,
+                ...(action === undefined
+                    ? { OverrideAction: { None: {} } }
+                    : { Action: { [action]: {} } }),
+                VisibilityConfig: visibilityConfig(name),
+            })),
+        },
+    };
+    return resources;
+}
@@ -0,0 +1,130 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { generateCompressedVariants } from "../../src/compression";
+import FrontendPlugin from "../../src/index";
+import { slsProject } from "../helpers";
+
+async function listDirectory(directory: string): Promise<string[]> {
+    const files = await fs.readdir(directory, {
+        recursive: true,
+        withFileTypes: true,
+    });
+    return files
+        .filter((file) => file.isFile())
+        .map((file) =>
+            path.relative(directory, path.join(file.parentPath, file.name)),
+        )
+        .sort();
+}
+
+describe("compressed variants", () => {
+    let directory: string;
+    let buildDirectory: string;
+    let outputDirectory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "compression-"));
+        buildDirectory = path.join(directory, "build");
+        outputDirectory = path.join(directory, "compressed");
+        await fs.mkdir(path.join(buildDirectory, "assets"), {
+            recursive: true,
+        });
+        await fs.writeFile(
+            path.join(buildDirectory, "index.html"),
+            "<html></html>",
+        );
+        await fs.writeFile(
+            path.join(buildDirectory, "assets/app.js"),
+            "console.log(1)",
+        );
+        await fs.writeFile(path.join(buildDirectory, "assets/app.js.br"), "");
+        await fs.writeFile(path.join(buildDirectory, "logo.png"), "");
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("are written outside of the build output", async () => {
+        expect(
+            await generateCompressedVariants(buildDirectory, outputDirectory, [
+                "br",
+                "gzip",
+            ]),
+        ).toBe(3);
+        expect(await listDirectory(buildDirectory)).toEqual([
+            "assets/app.js",
+            "assets/app.js.br",
+            "index.html",
+            "logo.png",
+        ]);
+        expect(await listDirectory(outputDirectory)).toEqual([
+            "assets/app.js.gz",
+            "index.html.br",
+            "index.html.gz",
+        ]);
+    });
+
+    it("are reused until the original changes", async () => {
+        await generateCompressedVariants(buildDirectory, outputDirectory, [
+            "br",
+        ]);
+        expect(
+            await generateCompressedVariants(buildDirectory, outputDirectory, [
+                "br",
+            ]),
+        ).toBe(0);
+        const later = new Date(Date.now() + 60000);
+        await fs.utimes(path.join(buildDirectory, "index.html"), later, later);
+        expect(
+            await generateCompressedVariants(buildDirectory, outputDirectory, [
+                "br",
+            ]),
+        ).toBe(1);
+    });
+
+    it("are removed with their original", async () => {
+        await generateCompressedVariants(buildDirectory, outputDirectory, [
+            "br",
+            "gzip",
+        ]);
+        await fs.rm(path.join(buildDirectory, "index.html"));
+        await generateCompressedVariants(buildDirectory, outputDirectory, [
+            "gzip",
+        ]);
+        expect(await listDirectory(outputDirectory)).toEqual([
+            "assets/app.js.gz",
+        ]);
+    });
+
+    it("are uploaded with the encoding and type of the original", async () => {
+        const project = await slsProject("nitro", { compression: true });
+        const plugin = project.pluginManager.plugins.find(
+            (plugin) => plugin instanceof FrontendPlugin,
+        ) as FrontendPlugin;
+        const { added } = await plugin.planAssetUpload(undefined);
+        const variant = added.find((asset) => asset.key === "index.html.br");
+        expect(added.map((asset) => asset.key)).toEqual([
+            "index.html",
+            "index.html.br",
+            "index.html.gz",
+        ]);
+        expect(variant?.path).toBe(
+            path.join(
+                project.serviceDir,
+                ".serverless/compressed/index.html.br",
+            ),
+        );
+        expect(variant?.headers).toMatchObject({
+            ContentType: "text/html",
+            ContentEncoding: "br",
+        });
+        expect(
+            await listDirectory(
+                path.join(project.serviceDir, ".output/public"),
+            ),
+        ).toEqual(["index.html"]);
+    });
+});
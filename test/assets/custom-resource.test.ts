@@ -0,0 +1,370 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import { Readable } from "node:stream";
+import {
+    afterAll,
+    afterEach,
+    beforeAll,
+    beforeEach,
+    describe,
+    expect,
+    it,
+    jest,
+} from "@jest/globals";
+import ts from "typescript";
+import type { LocalAsset } from "../../src/assets";
+import {
+    SiteAssetsHandlerCode,
+    writeSiteAssetsArtifact,
+} from "../../src/custom-resource";
+import { slsProject } from "../helpers";
+
+type Command = {
+    constructor: { name: string };
+    input: Record<string, unknown>;
+};
+type Send = (
+    command: Command,
+    options: { abortSignal: AbortSignal },
+) => Promise<unknown>;
+type Handler = {
+    s3: { send: Send };
+    cloudformation: { send: Send };
+    handler(
+        event: Record<string, unknown>,
+        context: { getRemainingTimeInMillis(): number },
+    ): Promise<void>;
+};
+
+// Runs the ES module of the handler as CommonJS, with the AWS SDK of the repo
+function loadHandler(): Handler {
+    const { outputText } = ts.transpileModule(SiteAssetsHandlerCode, {
+        compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2022,
+        },
+    });
+    const exports = {};
+    new Function("exports", "require", outputText)(exports, require);
+    return exports as Handler;
+}
+
+const properties = {
+    SourceBucket: "deployment-bucket",
+    SourceKey: "artifacts/frontend-assets.data",
+    ListKey: "artifacts/frontend-assets.json",
+    DestinationBucket: "site-bucket",
+    DestinationPrefix: "releases/r1/",
+};
+
+async function readBody(body: unknown): Promise<string> {
+    if (typeof body === "string") {
+        return body;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of body as Readable) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString();
+}
+
+// Rejects once the request is cancelled, like the AWS SDK
+function abortable<T>(signal: AbortSignal, result?: () => T): Promise<T> {
+    return new Promise((resolve, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+        if (result !== undefined) {
+            setImmediate(() => {
+                try {
+                    resolve(result());
+                } catch (err) {
+                    reject(err);
+                }
+            });
+        }
+    });
+}
+
+describe("the asset deployment handler", () => {
+    let directory: string;
+    let module: Handler;
+    let artifact: Buffer;
+    let list: string;
+    let responses: Array<Record<string, unknown>>;
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "site-assets-"));
+        const contents: Record<string, string> = {
+            "index.html": "<html></html>",
+            "empty.txt": "",
+            "assets/app.js": "console.log(1)",
+        };
+        const assets: LocalAsset[] = [];
+        for (const [key, content] of Object.entries(contents)) {
+            const file = path.join(directory, "build", key);
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(file, content);
+            assets.push({
+                key,
+                path: file,
+                size: content.length,
+                etag: "",
+                headers: key.endsWith(".js")
+                    ? {
+                          ContentType: "text/javascript",
+                          CacheControl: "public, max-age=31536000, immutable",
+                      }
+                    : undefined,
+            });
+        }
+        const files = await writeSiteAssetsArtifact(
+            assets,
+            path.join(directory, "frontend-assets.data"),
+        );
+        artifact = await fs.readFile(
+            path.join(directory, "frontend-assets.data"),
+        );
+        list = JSON.stringify({ files });
+        module = loadHandler();
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        responses = [];
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        jest.spyOn(console, "warn").mockImplementation(() => {});
+        jest.spyOn(console, "error").mockImplementation(() => {});
+        jest.spyOn(globalThis, "fetch").mockImplementation(
+            async (_url, init) => {
+                responses.push(JSON.parse(String(init?.body)));
+                return new Response();
+            },
+        );
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function handle(
+        requestType: string,
+        send: Send,
+        { remainingTime = 900000, stackStatus = "DELETE_IN_PROGRESS" } = {},
+    ) {
+        module.s3.send = send;
+        module.cloudformation.send = async ({ input }) => ({
+            Stacks: [{ StackId: input.StackName, StackStatus: stackStatus }],
+        });
+        await module.handler(
+            {
+                RequestType: requestType,
+                ResponseURL: "https://cloudformation.example.com/response",
+                StackId:
+                    "arn:aws:cloudformation:us-east-1:123456789012:stack/site/1",
+                LogicalResourceId: "SiteAssets",
+                ResourceProperties: properties,
+            },
+            { getRemainingTimeInMillis: () => remainingTime },
+        );
+        return responses;
+    }
+
+    // The artifacts in the deployment bucket, with ranges of the assets
+    function getObject({ input }: Command) {
+        if (input.Key === properties.ListKey) {
+            return { Body: { transformToString: async () => list } };
+        }
+        const [, start, end] =
+            /^bytes=(\d+)-(\d+)$/.exec(String(input.Range)) ?? [];
+        return {
+            Body: Readable.from([
+                artifact.subarray(Number(start), Number(end) + 1),
+            ]),
+        };
+    }
+
+    it("streams every file to the site bucket with its headers", async () => {
+        const puts: Array<Record<string, unknown>> = [];
+        const responses = await handle("Create", async (command) => {
+            switch (command.constructor.name) {
+                case "GetObjectCommand":
+                    return getObject(command);
+                case "PutObjectCommand": {
+                    const { Body, ...input } = command.input;
+                    puts.push({ ...input, Body: await readBody(Body) });
+                    return {};
+                }
+            }
+            throw new Error(`Unexpected ${command.constructor.name}`);
+        });
+        expect(
+            puts.sort((a, b) => String(a.Key).localeCompare(String(b.Key))),
+        ).toEqual([
+            {
+                Bucket: "site-bucket",
+                Key: "releases/r1/assets/app.js",
+                ContentType: "text/javascript",
+                CacheControl: "public, max-age=31536000, immutable",
+                ContentLength: 14,
+                Body: "console.log(1)",
+            },
+            {
+                Bucket: "site-bucket",
+                Key: "releases/r1/empty.txt",
+                ContentLength: 0,
+                Body: "",
+            },
+            {
+                Bucket: "site-bucket",
+                Key: "releases/r1/index.html",
+                ContentLength: 13,
+                Body: "<html></html>",
+            },
+        ]);
+        expect(responses).toEqual([
+            {
+                Status: "SUCCESS",
+                PhysicalResourceId: "SiteAssets",
+                StackId:
+                    "arn:aws:cloudformation:us-east-1:123456789012:stack/site/1",
+                LogicalResourceId: "SiteAssets",
+            },
+        ]);
+    });
+
+    it("stops copying when a copy fails", async () => {
+        const files = Array.from({ length: 40 }, (_, i) => ({
+            key: `assets/${i}.js`,
+            offset: 0,
+            size: 1,
+            headers: {},
+        }));
+        const original = list;
+        list = JSON.stringify({ files });
+        let puts = 0;
+        try {
+            const responses = await handle(
+                "Update",
+                async (command, { abortSignal }) => {
+                    if (command.constructor.name === "GetObjectCommand") {
+                        return getObject(command);
+                    }
+                    puts++;
+                    return abortable(abortSignal, () => {
+                        if (command.input.Key === "releases/r1/assets/0.js") {
+                            throw new Error("Access Denied");
+                        }
+                        return {};
+                    });
+                },
+            );
+            expect(responses).toEqual([
+                expect.objectContaining({
+                    Status: "FAILED",
+                    Reason: "Error: Access Denied",
+                }),
+            ]);
+            expect(puts).toBeLessThanOrEqual(16);
+        } finally {
+            list = original;
+        }
+    });
+
+    it("cancels the copies before the Lambda times out", async () => {
+        let cancelled = 0;
+        const responses = await handle(
+            "Create",
+            async (command, { abortSignal }) => {
+                if (command.input.Key === properties.ListKey) {
+                    return getObject(command);
+                }
+                // Never completes, until cancelled
+                return abortable(abortSignal).catch((err) => {
+                    cancelled++;
+                    throw err;
+                });
+            },
+            { remainingTime: 10050 },
+        );
+        expect(cancelled).toBe(3);
+        expect(responses).toEqual([
+            expect.objectContaining({
+                Status: "FAILED",
+                Reason: "Error: Timed out copying the assets",
+            }),
+        ]);
+    });
+
+    it("deletes the copied files along with the stack", async () => {
+        const deleted: unknown[] = [];
+        const responses = await handle("Delete", async (command) => {
+            if (command.constructor.name === "GetObjectCommand") {
+                return getObject(command);
+            }
+            deleted.push(command.input);
+            return {};
+        });
+        expect(deleted).toEqual([
+            {
+                Bucket: "site-bucket",
+                Delete: {
+                    Objects: [
+                        { Key: "releases/r1/index.html" },
+                        { Key: "releases/r1/empty.txt" },
+                        { Key: "releases/r1/assets/app.js" },
+                    ],
+                    Quiet: true,
+                },
+            },
+        ]);
+        expect(responses[0].Status).toBe("SUCCESS");
+    });
+
+    it("keeps the files when the resource is removed from the template", async () => {
+        const deleted: unknown[] = [];
+        const responses = await handle(
+            "Delete",
+            async (command) => {
+                deleted.push(command.input);
+                return {};
+            },
+            { stackStatus: "UPDATE_COMPLETE_CLEANUP_IN_PROGRESS" },
+        );
+        expect(deleted).toEqual([]);
+        expect(responses[0].Status).toBe("SUCCESS");
+    });
+
+    it("never fails deleting, so the stack can be removed", async () => {
+        const responses = await handle("Delete", async () => {
+            throw Object.assign(new Error("The key does not exist"), {
+                name: "NoSuchKey",
+            });
+        });
+        expect(responses[0].Status).toBe("SUCCESS");
+    });
+});
+
+describe("the asset deployment resources", () => {
+    it("deploy assets through a custom resource when enabled", async () => {
+        const project = await slsProject("nitro", {
+            assetDeployment: "custom-resource",
+        });
+        await project.pluginManager.spawn("package");
+        const resources =
+            project.service.provider.compiledCloudFormationTemplate.Resources;
+        expect(resources.SiteAssets.Type).toBe("Custom::SiteAssets");
+        expect(resources.SiteAssets.Properties.SourceKey).toMatch(
+            /\/frontend-assets\.data$/,
+        );
+        expect(resources.SiteAssets.Properties.ListKey).toMatch(
+            /\/frontend-assets\.json$/,
+        );
+        expect(resources.SiteDistribution.DependsOn).toContain("SiteAssets");
+        expect(resources.ServerLambdaFunction.DependsOn).toContain(
+            "SiteAssets",
+        );
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import FrontendPlugin from "../../src/index";
+import {
+    InvalidationWaitTimeout,
+    invalidationPaths,
+    keyPaths,
+} from "../../src/invalidation";
+import type { DeploymentManifest, ManifestFile } from "../../src/manifest";
+import { slsProject } from "../helpers";
+
+const headers = { CacheControl: "public,max-age=0" };
+
+function file(key: string, etag = "0123"): ManifestFile {
+    return { key, etag, size: 1, headers };
+}
+
+function manifest(files: ManifestFile[]): DeploymentManifest {
+    return {
+        id: "20260101T000000Z-abc",
+        createdAt: "2026-01-01T00:00:00.000Z",
+        framework: "vite",
+        files,
+    };
+}
+
+describe("invalidation paths", () => {
+    it("maps index files to their directory", () => {
+        expect(keyPaths("index.html")).toEqual(["/index.html", "/"]);
+        expect(keyPaths("blog/index.html")).toEqual([
+            "/blog/index.html",
+            "/blog/",
+            "/blog",
+        ]);
+        expect(keyPaths("assets/app.js")).toEqual(["/assets/app.js"]);
+    });
+
+    it("only invalidates added, changed and removed files", () => {
+        const previous = manifest([
+            file("index.html"),
+            file("assets/old.js"),
+            file("robots.txt"),
+        ]);
+        const current = manifest([
+            file("index.html", "4567"),
+            file("assets/new.js"),
+            file("robots.txt"),
+        ]);
+        expect(invalidationPaths(previous, current)).toEqual([
+            "/assets/new.js",
+            "/assets/old.js",
+            "/index.html",
+            "/",
+        ]);
+    });
+
+    it("invalidates everything when too many files changed", () => {
+        const previous = manifest([]);
+        const current = manifest([file("a.js"), file("b.js"), file("c.js")]);
+        expect(invalidationPaths(previous, current, 2)).toEqual(["/*"]);
+        expect(invalidationPaths(undefined, current)).toEqual(["/*"]);
+    });
+
+    it("invalidates everything when the SSR function changed", () => {
+        const previous = { ...manifest([]), serverArtifactHash: "a" };
+        const current = { ...manifest([]), serverArtifactHash: "b" };
+        expect(invalidationPaths(previous, current)).toEqual(["/*"]);
+    });
+
+    it("invalidates everything when a fallback page changed", () => {
+        const previous = manifest([file("index.html"), file("assets/app.js")]);
+        const current = manifest([
+            file("index.html", "4567"),
+            file("assets/app.js"),
+        ]);
+        // Served for every client route of an SPA
+        expect(
+            invalidationPaths(previous, current, undefined, ["index.html"]),
+        ).toEqual(["/*"]);
+        expect(
+            invalidationPaths(previous, current, undefined, ["404.html"]),
+        ).toEqual(["/index.html", "/"]);
+    });
+});
+
+describe("waiting for an invalidation", () => {
+    it("fails when it doesn't complete in time", async () => {
+        const project = await slsProject("nitro");
+        const plugin = project.pluginManager.plugins.find(
+            (plugin) => plugin instanceof FrontendPlugin,
+        ) as FrontendPlugin;
+        const methods: string[] = [];
+        jest.spyOn(plugin.provider, "request").mockImplementation(
+            async (_service, method) => {
+                methods.push(method);
+                switch (method) {
+                    case "describeStackResources":
+                        return {
+                            StackResources: [
+                                {
+                                    LogicalResourceId: "SiteDistribution",
+                                    PhysicalResourceId: "E123",
+                                },
+                            ],
+                        };
+                    case "createInvalidation":
+                    case "getInvalidation":
+                        return {
+                            Invalidation: { Id: "I1", Status: "InProgress" },
+                        };
+                }
+                throw new Error(`Unexpected request ${method}`);
+            },
+        );
+        plugin.options.wait = true;
+        jest.useFakeTimers();
+        try {
+            const invalidation = plugin.createInvalidation(["/*"]);
+            const failed = expect(invalidation).rejects.toThrow(
+                "Invalidation I1 didn't complete within 30 minutes",
+            );
+            await jest.advanceTimersByTimeAsync(InvalidationWaitTimeout);
+            await failed;
+        } finally {
+            jest.useRealTimers();
+        }
+        expect(
+            methods.filter((method) => method === "getInvalidation"),
+        ).toHaveLength(InvalidationWaitTimeout / 10000);
+    });
+});
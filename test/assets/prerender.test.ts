@@ -0,0 +1,27 @@
+import { describe, expect, it } from "@jest/globals";
+import { prerenderedRoutes, topLevelRoutes } from "../../src/prerender";
+
+describe("prerendered routes", () => {
+    it("maps routes to their HTML files", () => {
+        const routes = prerenderedRoutes([
+            "404.html",
+            "about/index.html",
+            "blog/hello/index.html",
+            "contact.html",
+            "index.html",
+        ]);
+        expect(routes).toEqual({
+            "/": "index.html",
+            "/about": "about/index.html",
+            "/blog/hello": "blog/hello/index.html",
+            "/contact": "contact.html",
+        });
+        expect(topLevelRoutes(routes)).toEqual(["/about", "/contact"]);
+    });
+
+    it("prefers subfolder indexes", () => {
+        expect(prerenderedRoutes(["docs/index.html", "docs.html"])).toEqual({
+            "/docs": "docs/index.html",
+        });
+    });
+});
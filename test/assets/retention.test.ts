@@ -0,0 +1,58 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+    expiredReleases,
+    isExpired,
+    trackStaleObjects,
+} from "../../src/retention";
+
+const now = new Date("2025-06-15T12:00:00Z");
+const daysAgo = (days: number) =>
+    new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe("retention", () => {
+    it("tracks since when objects are stale", () => {
+        const tracked = trackStaleObjects(
+            {
+                "assets/old.js": { since: daysAgo(3), deployments: 2 },
+                "assets/restored.js": { since: daysAgo(3), deployments: 2 },
+            },
+            ["assets/old.js", "assets/new.js"],
+            now,
+            true,
+        );
+        expect(tracked).toEqual({
+            "assets/old.js": { since: daysAgo(3), deployments: 3 },
+            "assets/new.js": { since: now.toISOString(), deployments: 1 },
+        });
+    });
+
+    it("expires stale objects after any configured limit", () => {
+        const stale = { since: daysAgo(3), deployments: 2 };
+        expect(isExpired(stale, {}, now)).toBe(false);
+        expect(isExpired(stale, { days: 2 }, now)).toBe(true);
+        expect(isExpired(stale, { days: 7 }, now)).toBe(false);
+        expect(isExpired(stale, { deployments: 1 }, now)).toBe(true);
+        expect(isExpired(stale, { days: 2, deployments: 2 }, now)).toBe(true);
+        expect(isExpired(stale, { days: 7, deployments: 1 }, now)).toBe(true);
+        expect(isExpired(stale, { days: 7, deployments: 2 }, now)).toBe(false);
+    });
+
+    it("never expires the current release", () => {
+        const releases = [
+            { id: "a", createdAt: daysAgo(30) },
+            { id: "b", createdAt: daysAgo(20) },
+            { id: "c", createdAt: daysAgo(10) },
+            { id: "d", createdAt: daysAgo(1) },
+        ];
+        expect(
+            expiredReleases(releases, "d", { deployments: 1 }, now).map(
+                (release) => release.id,
+            ),
+        ).toEqual(["a", "b"]);
+        expect(
+            expiredReleases(releases, "a", { days: 5 }, now).map(
+                (release) => release.id,
+            ),
+        ).toEqual(["b"]);
+    });
+});
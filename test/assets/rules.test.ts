@@ -0,0 +1,41 @@
+import { describe, expect, it } from "@jest/globals";
+import { applyAssetRules, globToRegExp } from "../../src/rules";
+
+describe("asset rules", () => {
+    it("matches glob patterns", () => {
+        expect(globToRegExp("index.html").test("index.html")).toBe(true);
+        expect(globToRegExp("index.html").test("blog/index.html")).toBe(true);
+        expect(globToRegExp("/index.html").test("blog/index.html")).toBe(false);
+        expect(globToRegExp("assets/*.js").test("assets/app.js")).toBe(true);
+        expect(globToRegExp("assets/*.js").test("assets/lib/app.js")).toBe(
+            false,
+        );
+        expect(globToRegExp("assets/**").test("assets/lib/app.js")).toBe(true);
+        expect(globToRegExp("*.{woff,woff2}").test("fonts/inter.woff2")).toBe(
+            true,
+        );
+        expect(
+            globToRegExp("/.well-known/apple-app-site-association").test(
+                ".well-known/apple-app-site-association",
+            ),
+        ).toBe(true);
+    });
+
+    it("applies matching rules in order", () => {
+        const headers = applyAssetRules(
+            "sw.js",
+            { CacheControl: "default", ContentType: "text/javascript" },
+            [
+                { pattern: "*.js", cacheControl: "immutable" },
+                { pattern: "sw.js", cacheControl: "no-cache" },
+                { pattern: "*.css", cacheControl: "never" },
+                { pattern: "**", metadata: { team: "web" } },
+            ],
+        );
+        expect(headers).toEqual({
+            CacheControl: "no-cache",
+            ContentType: "text/javascript",
+            Metadata: { team: "web" },
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import * as path from "node:path";
+import { describe, expect, it } from "@jest/globals";
+import { listLocalAssets, planAssetSync } from "../../src/assets";
+
+const publicDirectory = path.resolve(
+    __dirname,
+    "../projects/nitro/.output/public",
+);
+
+describe("asset sync", () => {
+    it("lists local assets with their MD5 hash", async () => {
+        const assets = await listLocalAssets(publicDirectory);
+        expect(assets.map((asset) => asset.key)).toEqual(["index.html"]);
+        expect(assets[0].etag).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it("only uploads new and changed files", async () => {
+        const [index] = await listLocalAssets(publicDirectory);
+        const local = [
+            index,
+            { ...index, key: "assets/app.js" },
+            { ...index, key: "assets/app.css" },
+        ];
+        const plan = planAssetSync(local, [
+            { Key: "index.html", ETag: `"${index.etag}"` },
+            { Key: "assets/app.css", ETag: '"0123"' },
+            { Key: "assets/old.js", ETag: '"4567"' },
+        ]);
+        expect(plan.added.map((asset) => asset.key)).toEqual(["assets/app.js"]);
+        expect(plan.changed.map((asset) => asset.key)).toEqual([
+            "assets/app.css",
+        ]);
+        expect(plan.unchanged.map((asset) => asset.key)).toEqual([
+            "index.html",
+        ]);
+        expect(plan.stale.map((object) => object.Key)).toEqual([
+            "assets/old.js",
+        ]);
+    });
+
+    it("uploads everything when forced", async () => {
+        const [index] = await listLocalAssets(publicDirectory);
+        const plan = planAssetSync(
+            [index],
+            [{ Key: "index.html", ETag: `"${index.etag}"` }],
+            true,
+        );
+        expect(plan.changed).toHaveLength(1);
+        expect(plan.unchanged).toHaveLength(0);
+    });
+
+    it("re-uploads files whose headers changed since the last deployment", async () => {
+        const [index] = await listLocalAssets(publicDirectory);
+        const remote = [{ Key: "index.html", ETag: `"${index.etag}"` }];
+        const headers = { CacheControl: "no-cache", ContentType: "text/html" };
+        const previous = new Map([["index.html", headers]]);
+        expect(
+            planAssetSync([{ ...index, headers }], remote, false, previous)
+                .unchanged,
+        ).toHaveLength(1);
+        expect(
+            planAssetSync(
+                [{ ...index, headers: { ...headers, ContentEncoding: "br" } }],
+                remote,
+                false,
+                previous,
+            ).changed,
+        ).toHaveLength(1);
+    });
+});
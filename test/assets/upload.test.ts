@@ -0,0 +1,246 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import type { Readable } from "node:stream";
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import type { LocalAsset } from "../../src/assets";
+import {
+    isThrottlingError,
+    mapConcurrently,
+    withRetry,
+} from "../../src/concurrency";
+import { type S3Client, uploadAsset } from "../../src/upload";
+
+type Call = { operation: string; params: Record<string, unknown> };
+
+// Records the calls, failing an operation when fail returns an error for it
+function fakeS3(
+    fail: (
+        operation: string,
+        params: Record<string, unknown>,
+    ) => unknown = () => undefined,
+): { s3: S3Client; calls: Call[] } {
+    const calls: Call[] = [];
+    const operation =
+        <R>(name: string, result: (params: Record<string, unknown>) => R) =>
+        (params: Record<string, unknown>) => ({
+            promise: async () => {
+                calls.push({ operation: name, params });
+                const err = fail(name, params);
+                if (err !== undefined) {
+                    throw err;
+                }
+                return result(params);
+            },
+        });
+    return {
+        calls,
+        s3: {
+            putObject: operation("putObject", () => ({})),
+            createMultipartUpload: operation("createMultipartUpload", () => ({
+                UploadId: "upload-1",
+            })),
+            uploadPart: operation("uploadPart", (params) => ({
+                ETag: `"etag-${params.PartNumber}"`,
+            })),
+            completeMultipartUpload: operation(
+                "completeMultipartUpload",
+                () => ({}),
+            ),
+            abortMultipartUpload: operation("abortMultipartUpload", () => ({})),
+        },
+    };
+}
+
+async function readBody(body: unknown): Promise<string> {
+    if (Buffer.isBuffer(body)) {
+        return body.toString();
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of body as Readable) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString();
+}
+
+describe("uploading assets", () => {
+    let directory: string;
+    let asset: LocalAsset;
+    const params = { Bucket: "bucket", Key: "assets/app.js" };
+
+    beforeAll(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "upload-"));
+        const file = path.join(directory, "app.js");
+        await fs.writeFile(file, "0123456789abcdefghijKLMNO");
+        asset = { key: "assets/app.js", path: file, size: 25, etag: "" };
+    });
+
+    afterAll(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("puts small files in a single request", async () => {
+        const { s3, calls } = fakeS3();
+        await uploadAsset(s3, asset, { ...params, ContentType: "text/js" });
+        expect(calls.map((call) => call.operation)).toEqual(["putObject"]);
+        expect(calls[0].params).toMatchObject({
+            ...params,
+            ContentType: "text/js",
+        });
+        expect(await readBody(calls[0].params.Body)).toBe(
+            "0123456789abcdefghijKLMNO",
+        );
+    });
+
+    it("splits large files into parts", async () => {
+        const { s3, calls } = fakeS3();
+        await uploadAsset(s3, asset, params, 10);
+        expect(calls.map((call) => call.operation)).toEqual([
+            "createMultipartUpload",
+            "uploadPart",
+            "uploadPart",
+            "uploadPart",
+            "completeMultipartUpload",
+        ]);
+        const parts = calls.filter((call) => call.operation === "uploadPart");
+        expect(
+            await Promise.all(parts.map((part) => readBody(part.params.Body))),
+        ).toEqual(["0123456789", "abcdefghij", "KLMNO"]);
+        expect(parts.map((part) => part.params.ContentLength)).toEqual([
+            10, 10, 5,
+        ]);
+        expect(calls[4].params).toEqual({
+            ...params,
+            UploadId: "upload-1",
+            MultipartUpload: {
+                Parts: [
+                    { ETag: '"etag-1"', PartNumber: 1 },
+                    { ETag: '"etag-2"', PartNumber: 2 },
+                    { ETag: '"etag-3"', PartNumber: 3 },
+                ],
+            },
+        });
+    });
+
+    it("aborts the multipart upload when a part fails", async () => {
+        const failure = new Error("Access Denied");
+        const { s3, calls } = fakeS3((operation, { PartNumber }) =>
+            operation === "uploadPart" && PartNumber === 2
+                ? failure
+                : undefined,
+        );
+        await expect(uploadAsset(s3, asset, params, 10)).rejects.toBe(failure);
+        expect(calls.map((call) => call.operation)).toEqual([
+            "createMultipartUpload",
+            "uploadPart",
+            "uploadPart",
+            "abortMultipartUpload",
+        ]);
+        expect(calls[3].params).toEqual({ ...params, UploadId: "upload-1" });
+    });
+
+    it("retries throttled parts", async () => {
+        let throttled = false;
+        const { s3, calls } = fakeS3((operation) => {
+            if (operation === "uploadPart" && !throttled) {
+                throttled = true;
+                return { code: "SlowDown" };
+            }
+            return undefined;
+        });
+        await uploadAsset(s3, asset, params, 10);
+        expect(
+            calls.filter((call) => call.operation === "uploadPart").length,
+        ).toBe(4);
+        expect(calls[calls.length - 1].operation).toBe(
+            "completeMultipartUpload",
+        );
+    });
+});
+
+describe("retrying requests", () => {
+    it("recognizes throttling errors", () => {
+        expect(isThrottlingError({ code: "SlowDown" })).toBe(true);
+        expect(
+            isThrottlingError({ providerError: { code: "Throttling" } }),
+        ).toBe(true);
+        expect(isThrottlingError({ statusCode: 503 })).toBe(true);
+        expect(isThrottlingError({ code: "AccessDenied" })).toBe(false);
+        expect(isThrottlingError(new Error("boom"))).toBe(false);
+        expect(isThrottlingError(undefined)).toBe(false);
+    });
+
+    it("retries until the request succeeds", async () => {
+        let attempts = 0;
+        const result = await withRetry(
+            async () => {
+                attempts++;
+                if (attempts < 3) {
+                    throw { code: "ThrottlingException" };
+                }
+                return "done";
+            },
+            { baseDelay: 1 },
+        );
+        expect(result).toBe("done");
+        expect(attempts).toBe(3);
+    });
+
+    it("gives up on other errors and after the last retry", async () => {
+        let attempts = 0;
+        await expect(
+            withRetry(async () => {
+                attempts++;
+                throw { code: "AccessDenied" };
+            }),
+        ).rejects.toEqual({ code: "AccessDenied" });
+        expect(attempts).toBe(1);
+
+        attempts = 0;
+        await expect(
+            withRetry(
+                async () => {
+                    attempts++;
+                    throw { statusCode: 429 };
+                },
+                { retries: 2, baseDelay: 1 },
+            ),
+        ).rejects.toEqual({ statusCode: 429 });
+        expect(attempts).toBe(3);
+    });
+});
+
+describe("mapping concurrently", () => {
+    it("keeps the order of the results within the limit", async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const results = await mapConcurrently(
+            [30, 10, 20, 0, 5],
+            2,
+            async (delay, index) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                running--;
+                return `${index}:${delay}`;
+            },
+        );
+        expect(results).toEqual(["0:30", "1:10", "2:20", "3:0", "4:5"]);
+        expect(maxRunning).toBe(2);
+    });
+
+    it("handles empty lists", async () => {
+        expect(await mapConcurrently([], 4, async () => 1)).toEqual([]);
+    });
+
+    it("rejects when an item fails", async () => {
+        await expect(
+            mapConcurrently([1, 2, 3], 2, async (item) => {
+                if (item === 2) {
+                    throw new Error("item 2");
+                }
+                return item;
+            }),
+        ).rejects.toThrow("item 2");
+    });
+});
@@ -0,0 +1,168 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it } from "@jest/globals";
+import { productionDependencies, workspaceRoot } from "../../src/dependencies";
+
+async function writePackage(
+    directory: string,
+    packageJson: Record<string, unknown>,
+) {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(
+        path.join(directory, "package.json"),
+        JSON.stringify(packageJson),
+    );
+}
+
+describe("production dependencies", () => {
+    it("collects dependencies, hoisted or nested, without devDependencies", async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), "deps-"));
+        try {
+            const project = path.join(root, "apps/site");
+            await writePackage(project, {
+                dependencies: { a: "1", "@scope/b": "1" },
+                devDependencies: { dev: "1" },
+            });
+            await writePackage(path.join(project, "node_modules/a"), {
+                dependencies: { c: "1" },
+                optionalDependencies: { missing: "1" },
+            });
+            await writePackage(
+                path.join(project, "node_modules/a/node_modules/c"),
+                {},
+            );
+            await writePackage(path.join(project, "node_modules/dev"), {});
+            // Hoisted to the root of the monorepo
+            await writePackage(path.join(root, "node_modules/@scope/b"), {
+                dependencies: { c: "2" },
+            });
+            await writePackage(path.join(root, "node_modules/c"), {});
+
+            const dependencies = await productionDependencies(project);
+            expect(
+                dependencies.map((dependency) => dependency.packagePath),
+            ).toEqual([
+                "node_modules/@scope/b",
+                "node_modules/a",
+                "node_modules/a/node_modules/c",
+                "node_modules/c",
+            ]);
+            expect(dependencies[3].directory).toBe(
+                await fs.realpath(path.join(root, "node_modules/c")),
+            );
+        } finally {
+            await fs.rm(root, { recursive: true });
+        }
+    });
+});
+
+describe("conflicting versions", () => {
+    it("nest a hoisted version under the package depending on it", async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), "deps-"));
+        try {
+            const project = path.join(root, "apps/site");
+            await writePackage(project, { dependencies: { b: "1", c: "2" } });
+            await writePackage(path.join(project, "node_modules/c"), {
+                version: "2",
+            });
+            // Hoisted to the root of the monorepo for another workspace
+            await writePackage(path.join(root, "node_modules/b"), {
+                dependencies: { c: "1" },
+            });
+            await writePackage(path.join(root, "node_modules/c"), {
+                version: "1",
+            });
+
+            const dependencies = await productionDependencies(project);
+            expect(
+                dependencies.map((dependency) => [
+                    dependency.packagePath,
+                    path.relative(root, dependency.directory),
+                ]),
+            ).toEqual([
+                ["node_modules/b", "node_modules/b"],
+                ["node_modules/b/node_modules/c", "node_modules/c"],
+                ["node_modules/c", "apps/site/node_modules/c"],
+            ]);
+        } finally {
+            await fs.rm(root, { recursive: true });
+        }
+    });
+
+    it("nest the packages of the pnpm store", async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), "deps-"));
+        try {
+            const store = path.join(root, "node_modules/.pnpm");
+            await writePackage(root, {
+                dependencies: { a: "1", "@scope/b": "1" },
+            });
+            await writePackage(path.join(store, "a@1/node_modules/a"), {
+                dependencies: { c: "1" },
+            });
+            await writePackage(path.join(store, "b@1/node_modules/@scope/b"), {
+                dependencies: { c: "2" },
+            });
+            await writePackage(path.join(store, "c@1/node_modules/c"), {});
+            await writePackage(path.join(store, "c@2/node_modules/c"), {
+                dependencies: { a: "1" },
+            });
+            // The symlinks pnpm creates to the store
+            const link = async (target: string, link: string) => {
+                await fs.mkdir(path.dirname(link), { recursive: true });
+                await fs.symlink(target, link, "dir");
+            };
+            await link(
+                path.join(store, "a@1/node_modules/a"),
+                path.join(root, "node_modules/a"),
+            );
+            await link(
+                path.join(store, "b@1/node_modules/@scope/b"),
+                path.join(root, "node_modules/@scope/b"),
+            );
+            await link(
+                path.join(store, "c@1/node_modules/c"),
+                path.join(store, "a@1/node_modules/c"),
+            );
+            await link(
+                path.join(store, "c@2/node_modules/c"),
+                path.join(store, "b@1/node_modules/c"),
+            );
+            await link(
+                path.join(store, "a@1/node_modules/a"),
+                path.join(store, "c@2/node_modules/a"),
+            );
+
+            const dependencies = await productionDependencies(root);
+            expect(
+                dependencies.map((dependency) => [
+                    dependency.packagePath,
+                    path.relative(store, dependency.directory),
+                ]),
+            ).toEqual([
+                ["node_modules/@scope/b", "b@1/node_modules/@scope/b"],
+                ["node_modules/@scope/b/node_modules/c", "c@2/node_modules/c"],
+                ["node_modules/a", "a@1/node_modules/a"],
+                ["node_modules/c", "c@1/node_modules/c"],
+            ]);
+        } finally {
+            await fs.rm(root, { recursive: true });
+        }
+    });
+});
+
+describe("the workspace root", () => {
+    it("is the closest parent with a lock file or workspaces", async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), "workspace-"));
+        try {
+            const project = path.join(root, "apps/site");
+            await writePackage(root, { private: true, workspaces: ["apps/*"] });
+            await writePackage(project, { private: true });
+            expect(workspaceRoot(project)).toBe(root);
+            await fs.writeFile(path.join(project, "yarn.lock"), "");
+            expect(workspaceRoot(project)).toBe(project);
+        } finally {
+            await fs.rm(root, { recursive: true });
+        }
+    });
+});
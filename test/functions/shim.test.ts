@@ -0,0 +1,174 @@
+import { spawnSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it } from "@jest/globals";
+import {
+    fetchHandlerShim,
+    LambdaShimFile,
+    nodeListenerShim,
+} from "../../src/lambda";
+
+const entry = `
+export function handler(req, res, next) {
+    if (req.url.startsWith("/missing")) {
+        return next();
+    }
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+        res.setHeader("set-cookie", ["a=1", "b=2"]);
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({
+            method: req.method,
+            url: req.url,
+            host: req.headers.host,
+            cookie: req.headers.cookie,
+            body: Buffer.concat(chunks).toString(),
+            autostart: process.env.ASTRO_NODE_AUTOSTART,
+        }));
+    });
+}
+`;
+
+const fetchSetup = [
+    "async function handleRequest(request) {",
+    "    const url = new URL(request.url);",
+    "    const headers = new Headers({ 'content-type': 'application/json' });",
+    "    headers.append('set-cookie', 'a=1');",
+    "    headers.append('set-cookie', 'b=2');",
+    "    return new Response(JSON.stringify({",
+    "        method: request.method,",
+    "        url: url.href,",
+    "        cookie: request.headers.get('cookie'),",
+    "        body: await request.text(),",
+    "    }), { status: 201, headers });",
+    "}",
+];
+
+// Collects the response of streaming handlers, like the Lambda runtime
+const streamingRuntime = `
+    import { PassThrough } from "node:stream";
+    globalThis.awslambda = {
+        HttpResponseStream: {
+            from: (stream, metadata) => Object.assign(stream, { metadata }),
+        },
+        streamifyResponse: (handler) => async (event) => {
+            const stream = new PassThrough();
+            const chunks = [];
+            stream.on("data", (chunk) => chunks.push(chunk));
+            await handler(event, stream);
+            return {
+                ...stream.metadata,
+                body: Buffer.concat(chunks).toString("base64"),
+            };
+        },
+    };
+`;
+
+async function invoke(
+    event: object,
+    shim = nodeListenerShim("server/entry.mjs", "handler", {
+        ASTRO_NODE_AUTOSTART: "disabled",
+    }),
+    runtime = "",
+) {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "shim-"));
+    try {
+        await fs.mkdir(path.join(directory, "server"));
+        await fs.writeFile(path.join(directory, "server/entry.mjs"), entry);
+        await fs.writeFile(path.join(directory, LambdaShimFile), shim);
+        const script = `
+            ${runtime}
+            const { handler } = await import("./${LambdaShimFile}");
+            console.log(JSON.stringify(await handler(${JSON.stringify(event)})));
+            process.exit(0);
+        `;
+        const result = spawnSync(
+            process.execPath,
+            ["--input-type=module", "-e", script],
+            { cwd: directory, encoding: "utf8", timeout: 30000 },
+        );
+        expect(result.stderr).toBe("");
+        return JSON.parse(result.stdout);
+    } finally {
+        await fs.rm(directory, { recursive: true });
+    }
+}
+
+function functionUrlEvent(method: string, rawPath: string, body?: string) {
+    return {
+        rawPath,
+        rawQueryString: "page=2",
+        cookies: ["session=abc"],
+        headers: { host: "example.lambda-url.aws" },
+        requestContext: { http: { method } },
+        body:
+            body === undefined
+                ? undefined
+                : Buffer.from(body).toString("base64"),
+        isBase64Encoded: true,
+    };
+}
+
+describe("the Node.js listener shim", () => {
+    it("passes Function URL requests to the listener", async () => {
+        const response = await invoke(
+            functionUrlEvent("POST", "/blog", "hello"),
+        );
+        expect(response.statusCode).toBe(200);
+        expect(response.cookies).toEqual(["a=1", "b=2"]);
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(response.headers["transfer-encoding"]).toBeUndefined();
+        expect(
+            JSON.parse(Buffer.from(response.body, "base64").toString()),
+        ).toEqual({
+            method: "POST",
+            url: "/blog?page=2",
+            host: "example.lambda-url.aws",
+            cookie: "session=abc",
+            body: "hello",
+            autostart: "disabled",
+        });
+    });
+
+    it("responds with 404 when the listener doesn't handle the request", async () => {
+        const response = await invoke(functionUrlEvent("GET", "/missing"));
+        expect(response.statusCode).toBe(404);
+    });
+});
+
+describe("the Fetch API shim", () => {
+    const expected = {
+        method: "POST",
+        url: "https://example.lambda-url.aws/blog?page=2",
+        cookie: "session=abc",
+        body: "hello",
+    };
+
+    it("buffers the response", async () => {
+        const response = await invoke(
+            functionUrlEvent("POST", "/blog", "hello"),
+            fetchHandlerShim(fetchSetup, false),
+        );
+        expect(response.statusCode).toBe(201);
+        expect(response.cookies).toEqual(["a=1", "b=2"]);
+        expect(response.headers["content-type"]).toBe("application/json");
+        expect(
+            JSON.parse(Buffer.from(response.body, "base64").toString()),
+        ).toEqual(expected);
+    });
+
+    it("streams the response", async () => {
+        const response = await invoke(
+            functionUrlEvent("POST", "/blog", "hello"),
+            fetchHandlerShim(fetchSetup, true),
+            streamingRuntime,
+        );
+        expect(response.statusCode).toBe(201);
+        expect(response.cookies).toEqual(["a=1", "b=2"]);
+        expect(
+            JSON.parse(Buffer.from(response.body, "base64").toString()),
+        ).toEqual(expected);
+    });
+});
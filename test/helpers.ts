@@ -0,0 +1,37 @@
+import * as path from "node:path";
+import Serverless from "serverless";
+import type Plugin from "serverless/classes/Plugin";
+import FrontendPlugin from "../src/index";
+
+export async function slsProject(
+    name: string,
+    frontend: Record<string, unknown> = {},
+): Promise<Serverless> {
+    const sls = new Serverless({
+        serviceDir: path.resolve(__dirname, "projects/", name),
+        configurationFilename: "serverless.yml",
+        configuration: {
+            service: "nitro-test",
+            provider: {
+                name: "aws",
+            },
+            custom: {
+                frontend: {
+                    framework: "nitro",
+                    buildCommand: ["true"],
+                    ...frontend,
+                },
+            },
+        },
+        commands: [],
+        options: {},
+        log: {
+            info: () => {},
+        },
+    });
+    await sls.init();
+    sls.pluginManager.addPlugin(
+        FrontendPlugin as unknown as Plugin.PluginStatic,
+    );
+    return sls;
+}
@@ -0,0 +1,8 @@
+module.exports = {
+    name: "my-framework",
+    displayName: "My framework",
+    detect: (packageJson) => "my-framework" in packageJson.dependencies,
+    siteMode: () => "static",
+    clientDirectory: () => "out",
+    immutableAssets: /^static\//,
+};
@@ -0,0 +1,12 @@
+// Top-level await, which keeps the module from being loaded with require()
+const { clientDirectory } = await Promise.resolve({ clientDirectory: "out" });
+
+export default [
+    {
+        name: "my-esm-framework",
+        displayName: "My ESM framework",
+        detect: (packageJson) => "my-framework" in packageJson.dependencies,
+        siteMode: () => "spa",
+        clientDirectory: () => clientDirectory,
+    },
+];
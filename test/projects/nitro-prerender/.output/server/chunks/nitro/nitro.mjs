@@ -0,0 +1,51 @@
+// Trimmed from the aws-lambda build of Nitro 2.13, keeping the inlined
+// runtime config the plugin reads the route rules from
+const _inlineRuntimeConfig = {
+    app: {
+        baseURL: "/",
+    },
+    nitro: {
+        routeRules: {
+            "/**": {
+                headers: {
+                    "x-frame-options": "DENY",
+                },
+            },
+            "/products/**": {
+                swr: 3600,
+                cache: {
+                    swr: true,
+                    maxAge: 3600,
+                },
+            },
+            "/api/**": {
+                cache: false,
+            },
+            "/old/**": {
+                redirect: {
+                    to: "/new/**",
+                    statusCode: 301,
+                    _redirectStripBase: "/old",
+                },
+            },
+        },
+    },
+};
+
+function useRuntimeConfig() {
+    return _inlineRuntimeConfig;
+}
+
+function defineEventHandler(handler) {
+    return handler;
+}
+
+async function handler() {
+    return {
+        statusCode: 200,
+        headers: { "content-type": "text/html" },
+        body: `<h1>${useRuntimeConfig().app.baseURL}</h1>`,
+    };
+}
+
+export { defineEventHandler as d, handler as h };
@@ -0,0 +1,5 @@
+import { d as defineEventHandler } from "../nitro/nitro.mjs";
+
+const about = defineEventHandler(() => "<h1>about</h1>");
+
+export { about as default };
@@ -0,0 +1,5 @@
+import { d as defineEventHandler } from "../../nitro/nitro.mjs";
+
+const hello = defineEventHandler(() => "<h1>blog/hello</h1>");
+
+export { hello as default };
@@ -0,0 +1,5 @@
+import { d as defineEventHandler } from "../nitro/nitro.mjs";
+
+const _index = defineEventHandler(() => "<h1>index</h1>");
+
+export { _index as default };
@@ -0,0 +1 @@
+export { h as handler } from "./chunks/nitro/nitro.mjs";
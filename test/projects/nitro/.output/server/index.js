@@ -0,0 +1,9 @@
+const _inlineRuntimeConfig = {
+    app: { baseURL: "/" },
+    nitro: { routeRules: {} },
+};
+
+export const handler = async () => ({
+    statusCode: 200,
+    body: _inlineRuntimeConfig.app.baseURL,
+});
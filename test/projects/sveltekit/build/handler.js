@@ -0,0 +1 @@
+export function handler(req, res, next) { next(); }
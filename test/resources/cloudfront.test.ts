@@ -0,0 +1,430 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it } from "@jest/globals";
+import ts from "typescript";
+import {
+    StandardCacheBehaviors,
+    ViewerRequestSnippets,
+} from "../../src/cloudfront";
+import type { FrameworkContext } from "../../src/framework";
+import { BuiltinFrameworks } from "../../src/frameworks";
+import FrontendPlugin from "../../src/index";
+import { describeDistribution } from "../../src/plan";
+import { slsProject } from "../helpers";
+
+async function distributionConfig(
+    frontend: Record<string, unknown> = {},
+    projectName = "nitro",
+) {
+    const project = await slsProject(projectName, frontend);
+    await project.pluginManager.spawn("package");
+    const resources =
+        project.service.provider.compiledCloudFormationTemplate.Resources;
+    return {
+        project,
+        resources,
+        config: resources.SiteDistribution.Properties.DistributionConfig,
+    };
+}
+
+describe("the CloudFront distribution", () => {
+    it("forwards the host header to the SSR function", async () => {
+        const { resources, config } = await distributionConfig();
+        expect(resources).toHaveProperty("SSRForwardHost");
+        expect(
+            config.DefaultCacheBehavior.FunctionAssociations[0].FunctionARN,
+        ).toEqual({ "Fn::GetAtt": ["SSRForwardHost", "FunctionARN"] });
+    });
+
+    it("serves precompressed assets when compression is enabled", async () => {
+        const { resources, config } = await distributionConfig({
+            compression: { encodings: ["br"] },
+        });
+        const staticBehavior = config.CacheBehaviors.find(
+            (behavior: { PathPattern: string }) =>
+                behavior.PathPattern === "index.html",
+        );
+        const logicalId = "SiteViewerRequestForwardHostPrecompressed";
+        expect(staticBehavior.FunctionAssociations[0].FunctionARN).toEqual({
+            "Fn::GetAtt": [logicalId, "FunctionARN"],
+        });
+        expect(resources[logicalId].Properties.FunctionCode).toContain(
+            '[["br",".br"]]',
+        );
+        expect(
+            config.DefaultCacheBehavior.FunctionAssociations[0].FunctionARN,
+        ).toEqual({ "Fn::GetAtt": ["SSRForwardHost", "FunctionARN"] });
+        // S3 has no Vary header for the variants
+        expect(staticBehavior.ResponseHeadersPolicyId).toEqual({
+            Ref: "SiteAssetsResponseHeadersPolicy",
+        });
+        expect(
+            resources.SiteAssetsResponseHeadersPolicy.Properties
+                .ResponseHeadersPolicyConfig.CustomHeadersConfig,
+        ).toEqual({
+            Items: [
+                { Header: "Vary", Value: "Accept-Encoding", Override: true },
+            ],
+        });
+        expect(config.DefaultCacheBehavior).not.toHaveProperty(
+            "ResponseHeadersPolicyId",
+        );
+    });
+
+    it("serves the variant with the highest quality the viewer accepts", () => {
+        const snippet = ViewerRequestSnippets.precompressed(
+            ["js"],
+            [
+                { token: "br", extension: ".br" },
+                { token: "gzip", extension: ".gz" },
+            ],
+        );
+        const handler = new Function(
+            "request",
+            `${snippet.code} return request.uri;`,
+        ) as (request: unknown) => string;
+        const uri = (acceptEncoding?: string) =>
+            handler({
+                uri: "/app.js",
+                headers:
+                    acceptEncoding === undefined
+                        ? {}
+                        : { "accept-encoding": { value: acceptEncoding } },
+            });
+        expect(uri("gzip, deflate, br")).toBe("/app.js.br");
+        expect(uri("br;q=0, gzip")).toBe("/app.js.gz");
+        expect(uri("gzip;q=1.0, br;q=0.5")).toBe("/app.js.gz");
+        expect(uri("BR;Q=0.8, identity")).toBe("/app.js.br");
+        expect(uri("*")).toBe("/app.js.br");
+        expect(uri("*;q=0.1, br;q=0")).toBe("/app.js.gz");
+        expect(uri("gzip;q=0, *;q=0")).toBe("/app.js");
+        expect(uri("x-gzip, xbr, constructor")).toBe("/app.js");
+        expect(uri()).toBe("/app.js");
+    });
+
+    it("points the static files origin to the release", async () => {
+        const { config } = await distributionConfig({
+            versioned: true,
+            buildId: "abc123",
+        });
+        const staticFiles = config.Origins.find(
+            (origin: { Id: string }) => origin.Id === "StaticFiles",
+        );
+        expect(staticFiles.OriginPath).toBe("/releases/abc123");
+    });
+
+    it("can be summarized for review", async () => {
+        const { config } = await distributionConfig();
+        const summary = describeDistribution(config);
+        expect(summary).toContain(
+            "  StaticFilesSSR: StaticFiles -> ServerFunction on 403, 404",
+        );
+        expect(summary).toContain("  index.html -> StaticFilesSSR");
+        expect(summary).toContain("  * (default) -> ServerFunction");
+        expect(summary).toContain(
+            "    viewer-request: !GetAtt SSRForwardHost.FunctionARN",
+        );
+    });
+
+    it("serves static Astro pages with directory indexes", async () => {
+        const { resources, config } = await distributionConfig({
+            framework: "astro",
+        });
+        expect(config.DefaultRootObject).toBe("index.html");
+        expect(config.DefaultCacheBehavior.TargetOriginId).toBe("StaticFiles");
+        expect(
+            config.DefaultCacheBehavior.FunctionAssociations[0].FunctionARN,
+        ).toEqual({ "Fn::GetAtt": ["SiteDirectoryIndex", "FunctionARN"] });
+        expect(resources).not.toHaveProperty("ServerLambdaFunction");
+    });
+
+    it("renders Astro pages with the Node.js adapter, also when configured", async () => {
+        const astro = BuiltinFrameworks.find(
+            (adapter) => adapter.name === "astro",
+        );
+        const context = {
+            config: {},
+            hasFile: async () => true,
+            packageJson: async () => ({
+                dependencies: { astro: "^5.0.0", "@astrojs/node": "^9.0.0" },
+                devDependencies: {},
+            }),
+        } as unknown as FrameworkContext;
+        await astro?.configure?.(context);
+        expect(astro?.siteMode(context)).toBe("ssr");
+        expect(astro?.clientDirectory(context)).toBe("dist/client");
+    });
+
+    it("detects React Router also from its dependencies", async () => {
+        const reactRouter = BuiltinFrameworks.find(
+            (adapter) => adapter.name === "react-router",
+        );
+        const context = {} as FrameworkContext;
+        for (const dependencies of [
+            { "@react-router/dev": "^7.0.0" },
+            { "@remix-run/dev": "^2.0.0" },
+        ] as Array<Record<string, string>>) {
+            expect(
+                await reactRouter?.detect?.(
+                    { dependencies, devDependencies: {} },
+                    context,
+                ),
+            ).toBe(true);
+        }
+    });
+
+    it("serves SvelteKit client assets from S3 with SSR fallback", async () => {
+        const { project, resources, config } = await distributionConfig(
+            { framework: "sveltekit" },
+            "sveltekit",
+        );
+        expect(
+            config.CacheBehaviors.map(
+                (behavior: { PathPattern: string; TargetOriginId: string }) => [
+                    behavior.PathPattern,
+                    behavior.TargetOriginId,
+                ],
+            ),
+        ).toEqual([
+            ["_app/*", "StaticFilesSSR"],
+            ["robots.txt", "StaticFilesSSR"],
+        ]);
+        expect(config.DefaultCacheBehavior.TargetOriginId).toBe(
+            "ServerFunction",
+        );
+        expect(resources.ServerLambdaFunction.Properties.Handler).toBe(
+            "lambda.handler",
+        );
+        expect(project.service.functions.server.package?.artifact).toMatch(
+            /frontend-function\.zip$/,
+        );
+    });
+
+    it("rejects streaming for SvelteKit, whose handler buffers responses", async () => {
+        const project = await slsProject("sveltekit", {
+            framework: "sveltekit",
+            streaming: true,
+        });
+        await expect(project.pluginManager.spawn("package")).rejects.toThrow(
+            "Streaming isn't supported for SvelteKit",
+        );
+    });
+
+    it("serves React Router through a streaming server function", async () => {
+        const { resources, config } = await distributionConfig(
+            { framework: "react-router", streaming: true },
+            "react-router",
+        );
+        expect(
+            config.CacheBehaviors.map(
+                (behavior: { PathPattern: string }) => behavior.PathPattern,
+            ),
+        ).toEqual(["assets/*", "favicon.ico"]);
+        expect(resources.ServerLambdaFunction.Properties.Handler).toBe(
+            "lambda.handler",
+        );
+        expect(resources.ServerLambdaFunctionUrl.Properties.InvokeMode).toBe(
+            "RESPONSE_STREAM",
+        );
+    });
+
+    it("serves Next.js with the image optimization function", async () => {
+        const { project, resources, config } = await distributionConfig(
+            { framework: "nextjs", versioned: true, buildId: "abc123" },
+            "nextjs",
+        );
+        expect(
+            config.CacheBehaviors.map(
+                (behavior: { PathPattern: string; TargetOriginId: string }) => [
+                    behavior.PathPattern,
+                    behavior.TargetOriginId,
+                ],
+            ),
+        ).toEqual([
+            ["_next/image*", "ImageOptimizationFunction"],
+            ["BUILD_ID", "StaticFilesSSR"],
+            ["_next/*", "StaticFilesSSR"],
+            ["favicon.ico", "StaticFilesSSR"],
+        ]);
+        expect(resources).toHaveProperty("SiteImageCachePolicy");
+        expect(resources.ServerLambdaFunction.Properties.Handler).toBe(
+            "index.handler",
+        );
+        expect(resources.ImageLambdaFunction.Properties.Role).toEqual({
+            "Fn::GetAtt": ["SiteImageOptimizationRole", "Arn"],
+        });
+        expect(
+            resources.ImageLambdaFunction.Properties.Environment.Variables,
+        ).toEqual({
+            BUCKET_NAME: { Ref: "SiteBucket" },
+            BUCKET_KEY_PREFIX: "releases/abc123",
+        });
+        expect(project.service.functions.image.package?.artifact).toMatch(
+            /frontend-image-function\.zip$/,
+        );
+    });
+
+    it("uses the framework adapters from the adapters option", async () => {
+        const { project, config } = await distributionConfig(
+            { framework: undefined, adapters: "./adapter.js" },
+            "custom-adapter",
+        );
+        expect(project.service.custom.frontend.framework).toBe("my-framework");
+        expect(config.DefaultRootObject).toBe("index.html");
+        expect(config.DefaultCacheBehavior.TargetOriginId).toBe("StaticFiles");
+    });
+
+    it("loads framework adapters that are ES modules", async () => {
+        const { project, config } = await distributionConfig(
+            { framework: undefined, adapters: "./adapter.mjs" },
+            "custom-adapter",
+        );
+        expect(project.service.custom.frontend.framework).toBe(
+            "my-esm-framework",
+        );
+        expect(config.DefaultCacheBehavior.TargetOriginId).toBe(
+            "StaticFilesSPA",
+        );
+    });
+
+    it("loads ES modules once compiled to CommonJS", async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), "adapters-"));
+        try {
+            // As built by tsc, outside of the module system of Jest
+            const { outputText } = ts.transpileModule(
+                await fs.readFile(
+                    path.resolve(__dirname, "../../src/framework.ts"),
+                    "utf8",
+                ),
+                { compilerOptions: { module: ts.ModuleKind.CommonJS } },
+            );
+            const compiled = path.join(directory, "framework.js");
+            await fs.writeFile(compiled, outputText);
+            const serviceDir = path.resolve(
+                __dirname,
+                "../projects/custom-adapter",
+            );
+            const output = execFileSync(process.execPath, [
+                "-e",
+                `require(${JSON.stringify(compiled)}).loadFrameworkAdapters(["./adapter.mjs"], ${JSON.stringify(serviceDir)}).then((adapters) => console.log(adapters[0].name))`,
+            ]);
+            expect(output.toString().trim()).toBe("my-esm-framework");
+        } finally {
+            await fs.rm(directory, { recursive: true });
+        }
+    });
+
+    it("deploys the frontend from the root option", async () => {
+        const { project, config } = await distributionConfig(
+            { framework: undefined, root: "../apps/web" },
+            "monorepo/infra",
+        );
+        expect(project.service.custom.frontend.framework).toBe("react-router");
+        expect(
+            config.CacheBehaviors.map(
+                (behavior: { PathPattern: string }) => behavior.PathPattern,
+            ),
+        ).toEqual(["assets/*"]);
+        const plugin = project.pluginManager.plugins.find(
+            (plugin) => plugin instanceof FrontendPlugin,
+        ) as FrontendPlugin;
+        // From the packageManager field at the workspace root
+        expect(plugin.packageManagerRunCommand("build")).toEqual([
+            "pnpm",
+            "run",
+            "build",
+        ]);
+    });
+
+    it("serves prerendered Nitro pages from S3", async () => {
+        const { resources, config } = await distributionConfig(
+            {},
+            "nitro-prerender",
+        );
+        expect(config.DefaultRootObject).toBe("index.html");
+        const behaviors = config.CacheBehaviors.map(
+            (behavior: { PathPattern: string; TargetOriginId: string }) => [
+                behavior.PathPattern,
+                behavior.TargetOriginId,
+            ],
+        );
+        expect(behaviors).toContainEqual(["about", "StaticFilesSSR"]);
+        expect(behaviors).toContainEqual(["blog/*", "StaticFilesSSR"]);
+        const code =
+            resources.SiteViewerRequestForwardHostPrerenderedPages.Properties
+                .FunctionCode;
+        expect(code).toContain('"/about":"about/index.html"');
+        expect(code).toContain('"/blog/hello":"blog/hello/index.html"');
+        expect(code).not.toContain("404.html");
+        expect(
+            config.DefaultCacheBehavior.FunctionAssociations[0].FunctionARN,
+        ).toEqual({ "Fn::GetAtt": ["SSRForwardHost", "FunctionARN"] });
+    });
+
+    it("only rewrites the routes of prerendered pages", () => {
+        const snippet = ViewerRequestSnippets.prerenderedPages({
+            "/about": "about/index.html",
+        });
+        const handler = new Function(
+            "request",
+            `${snippet.code} return request.uri;`,
+        ) as (request: unknown) => string;
+        expect(handler({ uri: "/about/" })).toBe("/about/index.html");
+        for (const uri of ["/constructor", "/toString", "/__proto__", "/"]) {
+            expect(handler({ uri })).toBe(uri);
+        }
+    });
+
+    it("serves top-level prerendered pages by the function beyond the behavior quota", async () => {
+        const extraCacheBehaviors = Array.from({ length: 17 }, (_, index) => ({
+            PathPattern: `extra-${index}/*`,
+            ...StandardCacheBehaviors.serverFunction,
+        }));
+        const { config } = await distributionConfig(
+            { cloudfront: { extraCacheBehaviors } },
+            "nitro-prerender",
+        );
+        const pathPatterns = config.CacheBehaviors.map(
+            (behavior: { PathPattern: string }) => behavior.PathPattern,
+        );
+        expect(pathPatterns).toHaveLength(25);
+        expect(pathPatterns).not.toContain("about");
+        expect(pathPatterns).toContain("blog/*");
+    });
+
+    it("requires a password on every behavior of protected stages", async () => {
+        const { resources, config } = await distributionConfig({
+            basicAuth: { username: "preview", password: "secret" },
+        });
+        for (const behavior of [
+            config.DefaultCacheBehavior,
+            ...config.CacheBehaviors,
+        ]) {
+            expect(
+                behavior.FunctionAssociations[0].FunctionARN["Fn::GetAtt"][0],
+            ).toMatch(/^SiteViewerRequestBasicAuth/);
+        }
+        const code =
+            resources.SiteViewerRequestBasicAuthForwardHost.Properties
+                .FunctionCode;
+        const credentials = Buffer.from("preview:secret").toString("base64");
+        expect(code).toContain(`"Basic ${credentials}"`);
+        expect(code.indexOf(credentials)).toBeLessThan(
+            code.indexOf("x-forwarded-host"),
+        );
+
+        const production = await distributionConfig({
+            basicAuth: {
+                username: "preview",
+                password: "secret",
+                stages: ["staging"],
+            },
+        });
+        expect(production.resources).toHaveProperty("SSRForwardHost");
+        expect(production.resources).not.toHaveProperty(
+            "SiteViewerRequestBasicAuthForwardHost",
+        );
+    });
+});
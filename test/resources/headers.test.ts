@@ -0,0 +1,183 @@
+//biome-ignore-all lint/suspicious/noTemplateCurlyInString: CloudFormation
+import { describe, expect, it } from "@jest/globals";
+import { ResponseHeaderPolicy } from "../../src/cloudfront";
+import { responseHeadersPolicyConfig } from "../../src/headers";
+import { slsProject } from "../helpers";
+
+async function packagedResources(
+    frontend: Record<string, unknown>,
+    projectName = "nitro",
+) {
+    const project = await slsProject(projectName, frontend);
+    await project.pluginManager.spawn("package");
+    const resources =
+        project.service.provider.compiledCloudFormationTemplate.Resources;
+    return {
+        resources,
+        config: resources.SiteDistribution.Properties.DistributionConfig,
+    };
+}
+
+describe("response headers", () => {
+    it("converts the headers to a response headers policy", () => {
+        expect(
+            responseHeadersPolicyConfig(
+                {
+                    contentSecurityPolicy: "default-src 'self'",
+                    contentSecurityPolicyReportOnly: "script-src 'self'",
+                    strictTransportSecurity: { preload: true },
+                    frameOptions: "DENY",
+                    referrerPolicy: "strict-origin-when-cross-origin",
+                    permissionsPolicy: "camera=()",
+                    contentTypeOptions: true,
+                    cors: { origins: "https://example.com" },
+                    custom: { "X-Powered-By": "frontend" },
+                    override: false,
+                },
+                "policy",
+            ),
+        ).toEqual({
+            Name: "policy",
+            Comment: "Response headers from custom.frontend.headers",
+            SecurityHeadersConfig: {
+                ContentSecurityPolicy: {
+                    ContentSecurityPolicy: "default-src 'self'",
+                    Override: false,
+                },
+                ContentTypeOptions: { Override: false },
+                FrameOptions: { FrameOption: "DENY", Override: false },
+                ReferrerPolicy: {
+                    ReferrerPolicy: "strict-origin-when-cross-origin",
+                    Override: false,
+                },
+                StrictTransportSecurity: {
+                    AccessControlMaxAgeSec: 31536000,
+                    IncludeSubdomains: false,
+                    Preload: true,
+                    Override: false,
+                },
+            },
+            CustomHeadersConfig: {
+                Items: [
+                    {
+                        Header: "Content-Security-Policy-Report-Only",
+                        Value: "script-src 'self'",
+                        Override: false,
+                    },
+                    {
+                        Header: "Permissions-Policy",
+                        Value: "camera=()",
+                        Override: false,
+                    },
+                    {
+                        Header: "X-Powered-By",
+                        Value: "frontend",
+                        Override: false,
+                    },
+                ],
+            },
+            CorsConfig: {
+                AccessControlAllowCredentials: false,
+                AccessControlAllowHeaders: { Items: ["*"] },
+                AccessControlAllowMethods: {
+                    Items: ["GET", "HEAD", "OPTIONS"],
+                },
+                AccessControlAllowOrigins: { Items: ["https://example.com"] },
+                OriginOverride: false,
+            },
+        });
+        expect(
+            responseHeadersPolicyConfig({ frameOptions: false }, "policy"),
+        ).toBeUndefined();
+    });
+
+    it("attaches policies with the overrides of SSR and asset behaviors", async () => {
+        const { resources, config } = await packagedResources({
+            headers: {
+                frameOptions: "DENY",
+                ssr: { contentSecurityPolicy: "default-src 'self'" },
+            },
+        });
+        expect(config.DefaultCacheBehavior.ResponseHeadersPolicyId).toEqual({
+            Ref: "SiteSSRResponseHeadersPolicy",
+        });
+        expect(config.CacheBehaviors[0].ResponseHeadersPolicyId).toEqual({
+            Ref: "SiteResponseHeadersPolicy",
+        });
+        const ssrPolicy =
+            resources.SiteSSRResponseHeadersPolicy.Properties
+                .ResponseHeadersPolicyConfig;
+        expect(ssrPolicy.Name).toEqual({
+            "Fn::Sub": "${AWS::StackName}-ssr-response-headers",
+        });
+        expect(Object.keys(ssrPolicy.SecurityHeadersConfig)).toEqual([
+            "ContentSecurityPolicy",
+            "FrameOptions",
+        ]);
+        expect(
+            resources.SiteResponseHeadersPolicy.Properties
+                .ResponseHeadersPolicyConfig.SecurityHeadersConfig,
+        ).toEqual({ FrameOptions: { FrameOption: "DENY", Override: true } });
+    });
+
+    it("uses the managed security headers policy", async () => {
+        const { config } = await packagedResources({ headers: true });
+        expect(config.DefaultCacheBehavior.ResponseHeadersPolicyId).toBe(
+            ResponseHeaderPolicy.SecurityHeadersPolicy,
+        );
+    });
+
+    it("adds to the managed security headers for compressed assets", async () => {
+        const { resources, config } = await packagedResources({
+            headers: true,
+            compression: true,
+        });
+        expect(config.DefaultCacheBehavior.ResponseHeadersPolicyId).toBe(
+            ResponseHeaderPolicy.SecurityHeadersPolicy,
+        );
+        expect(config.CacheBehaviors[0].ResponseHeadersPolicyId).toEqual({
+            Ref: "SiteAssetsResponseHeadersPolicy",
+        });
+        const policy =
+            resources.SiteAssetsResponseHeadersPolicy.Properties
+                .ResponseHeadersPolicyConfig;
+        expect(Object.keys(policy.SecurityHeadersConfig)).toEqual([
+            "ContentTypeOptions",
+            "FrameOptions",
+            "ReferrerPolicy",
+            "StrictTransportSecurity",
+        ]);
+        expect(policy.CustomHeadersConfig.Items).toEqual([
+            {
+                Header: "X-XSS-Protection",
+                Value: "1; mode=block",
+                Override: false,
+            },
+            { Header: "Vary", Value: "Accept-Encoding", Override: false },
+        ]);
+    });
+
+    it("combines with the headers of route rules", async () => {
+        const { resources, config } = await packagedResources(
+            {
+                headers: {
+                    frameOptions: "SAMEORIGIN",
+                    referrerPolicy: "no-referrer",
+                },
+            },
+            "nitro-prerender",
+        );
+        const logicalId =
+            config.DefaultCacheBehavior.ResponseHeadersPolicyId.Ref;
+        expect(logicalId).toMatch(/^SiteRouteHeaders/);
+        const policy =
+            resources[logicalId].Properties.ResponseHeadersPolicyConfig;
+        // The route rule sets x-frame-options itself
+        expect(policy.SecurityHeadersConfig).toEqual({
+            ReferrerPolicy: { ReferrerPolicy: "no-referrer", Override: true },
+        });
+        expect(policy.CustomHeadersConfig.Items).toEqual([
+            { Header: "x-frame-options", Value: "DENY", Override: true },
+        ]);
+    });
+});
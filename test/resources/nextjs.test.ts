@@ -0,0 +1,142 @@
+import { describe, expect, it } from "@jest/globals";
+import type { FrameworkContext } from "../../src/framework";
+import { BuiltinFrameworks } from "../../src/frameworks";
+import { slsProject } from "../helpers";
+
+async function packagedResources(provider: Record<string, unknown> = {}) {
+    const project = await slsProject("nextjs", {
+        framework: "nextjs",
+        versioned: true,
+        buildId: "abc123",
+    });
+    Object.assign(project.service.provider, provider);
+    await project.pluginManager.spawn("package");
+    return {
+        project,
+        resources:
+            project.service.provider.compiledCloudFormationTemplate.Resources,
+    };
+}
+
+describe("the Next.js caches", () => {
+    it("gives the SSR function a cache bucket, revalidation queue and tag cache", async () => {
+        const { resources } = await packagedResources();
+        expect(resources.SiteCacheBucket.Type).toBe("AWS::S3::Bucket");
+        expect(resources.SiteRevalidationQueue.Properties).toEqual({
+            FifoQueue: true,
+        });
+        expect(resources.SiteTagCache.Properties.KeySchema).toEqual([
+            { AttributeName: "tag", KeyType: "HASH" },
+            { AttributeName: "path", KeyType: "RANGE" },
+        ]);
+        expect(
+            resources.ServerLambdaFunction.Properties.Environment.Variables,
+        ).toEqual({
+            CACHE_BUCKET_NAME: { Ref: "SiteCacheBucket" },
+            CACHE_BUCKET_KEY_PREFIX: "_cache",
+            CACHE_BUCKET_REGION: { Ref: "AWS::Region" },
+            REVALIDATION_QUEUE_URL: { Ref: "SiteRevalidationQueue" },
+            REVALIDATION_QUEUE_REGION: { Ref: "AWS::Region" },
+            CACHE_DYNAMO_TABLE: { Ref: "SiteTagCache" },
+        });
+        expect(resources.SiteServerCachePolicy.Properties.Roles).toEqual([
+            { Ref: "IamRoleLambdaExecution" },
+        ]);
+        expect(resources).toHaveProperty("IamRoleLambdaExecution");
+    });
+
+    it("regenerates stale pages with the revalidation function", async () => {
+        const { project, resources } = await packagedResources();
+        expect(resources.RevalidationLambdaFunction.Properties.Role).toEqual({
+            "Fn::GetAtt": ["SiteRevalidationRole", "Arn"],
+        });
+        const [mapping] = Object.values(resources).filter(
+            (resource) => resource.Type === "AWS::Lambda::EventSourceMapping",
+        );
+        expect(mapping.Properties).toMatchObject({
+            EventSourceArn: { "Fn::GetAtt": ["SiteRevalidationQueue", "Arn"] },
+            FunctionName: {
+                "Fn::GetAtt": ["RevalidationLambdaFunction", "Arn"],
+            },
+        });
+        expect(
+            project.service.functions.revalidation.package?.artifact,
+        ).toMatch(/frontend-revalidation-function\.zip$/);
+    });
+
+    it("leaves the access of a custom role to the caches to its owner", async () => {
+        const { resources } = await packagedResources({
+            iam: { role: "arn:aws:iam::123456789012:role/site" },
+        });
+        expect(resources).toHaveProperty("SiteCacheBucket");
+        expect(resources).not.toHaveProperty("SiteServerCachePolicy");
+    });
+
+    it("fills the caches once per build", async () => {
+        const nextjs = BuiltinFrameworks.find(
+            (adapter) => adapter.name === "nextjs",
+        );
+        const uploads: string[][] = [];
+        const requests: Array<{ method: string; params: object }> = [];
+        let newFiles = 2;
+        const context = {
+            log: { info: () => {} },
+            hasFile: async () => true,
+            readJson: async () => [
+                { tag: { S: "abc123/_N_T_/layout" }, path: { S: "abc123/" } },
+                { tag: { S: "abc123/_N_T_/page" }, path: { S: "abc123/" } },
+            ],
+            stackResourceId: async (logicalId: string) =>
+                logicalId === "SiteCacheBucket" ? "cache-bucket" : "tag-table",
+            uploadNewFiles: async (...args: string[]) => {
+                uploads.push(args);
+                return newFiles;
+            },
+            request: async (
+                _service: string,
+                method: string,
+                params: object,
+            ) => {
+                requests.push({ method, params });
+                return {};
+            },
+        } as unknown as FrameworkContext;
+
+        await nextjs?.afterDeploy?.(context);
+        expect(uploads).toEqual([
+            [".open-next/cache", "cache-bucket", "_cache/"],
+        ]);
+        expect(requests).toEqual([
+            {
+                method: "batchWriteItem",
+                params: {
+                    RequestItems: {
+                        "tag-table": [
+                            {
+                                PutRequest: {
+                                    Item: {
+                                        tag: { S: "abc123/_N_T_/layout" },
+                                        path: { S: "abc123/" },
+                                    },
+                                },
+                            },
+                            {
+                                PutRequest: {
+                                    Item: {
+                                        tag: { S: "abc123/_N_T_/page" },
+                                        path: { S: "abc123/" },
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                },
+            },
+        ]);
+
+        // Deploying the build again keeps the revalidated tags
+        newFiles = 0;
+        await nextjs?.afterDeploy?.(context);
+        expect(requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it } from "@jest/globals";
+import { MaxViewerRequestSnippetSize } from "../../src/cloudfront";
+import {
+    type RedirectRule,
+    type RewriteRule,
+    redirectStoreData,
+    redirectsSnippet,
+} from "../../src/redirects";
+import { slsProject } from "../helpers";
+
+type Request = {
+    uri: string;
+    headers: Record<string, { value: string }>;
+    querystring: Record<
+        string,
+        { value: string; multiValue?: Array<{ value: string }> }
+    >;
+};
+
+type Response = {
+    statusCode: number;
+    headers: { location: { value: string } };
+};
+
+function handle(
+    redirects: RedirectRule[],
+    rewrites: RewriteRule[],
+    uri: string,
+    {
+        host = "example.com",
+        querystring = {},
+    }: Partial<Request> & {
+        host?: string;
+    } = {},
+): Response | Request {
+    const snippet = redirectsSnippet(redirects, rewrites);
+    const handler = new Function(
+        "request",
+        `${snippet.code} return request;`,
+    ) as (request: Request) => Response | Request;
+    return handler({ uri, headers: { host: { value: host } }, querystring });
+}
+
+describe("redirects and rewrites", () => {
+    it("redirects exact paths", () => {
+        const redirects = [{ source: "/about-us", destination: "/about" }];
+        expect(handle(redirects, [], "/about-us")).toMatchObject({
+            statusCode: 301,
+            headers: { location: { value: "/about" } },
+        });
+        expect(handle(redirects, [], "/about-us/team")).toMatchObject({
+            uri: "/about-us/team",
+        });
+    });
+
+    it("redirects prefixes and wildcards", () => {
+        const redirects: RedirectRule[] = [
+            {
+                source: "/blog/*/amp",
+                destination: "/posts/*",
+                statusCode: 308,
+            },
+            { source: "/docs/*", destination: "/guide/*", statusCode: 302 },
+        ];
+        expect(handle(redirects, [], "/blog/hello/amp")).toMatchObject({
+            statusCode: 308,
+            headers: { location: { value: "/posts/hello" } },
+        });
+        expect(handle(redirects, [], "/docs/setup/aws")).toMatchObject({
+            statusCode: 302,
+            headers: { location: { value: "/guide/setup/aws" } },
+        });
+        expect(handle(redirects, [], "/blog/a/b/amp")).toMatchObject({
+            uri: "/blog/a/b/amp",
+        });
+    });
+
+    it("preserves the query string unless disabled", () => {
+        const querystring = {
+            q: { value: "shoes" },
+            tag: { value: "a", multiValue: [{ value: "a" }, { value: "b" }] },
+        };
+        expect(
+            handle(
+                [{ source: "/search", destination: "/find" }],
+                [],
+                "/search",
+                { querystring },
+            ),
+        ).toMatchObject({
+            headers: { location: { value: "/find?q=shoes&tag=a&tag=b" } },
+        });
+        expect(
+            handle(
+                [
+                    {
+                        source: "/search",
+                        destination: "/find",
+                        preserveQueryString: false,
+                    },
+                ],
+                [],
+                "/search",
+                { querystring },
+            ),
+        ).toMatchObject({ headers: { location: { value: "/find" } } });
+    });
+
+    it("redirects by host", () => {
+        const redirects = [
+            {
+                host: "www.example.com",
+                source: "/*",
+                destination: "https://example.com/*",
+            },
+        ];
+        expect(
+            handle(redirects, [], "/shop/cart", { host: "WWW.example.com" }),
+        ).toMatchObject({
+            statusCode: 301,
+            headers: { location: { value: "https://example.com/shop/cart" } },
+        });
+        expect(handle(redirects, [], "/shop/cart")).toMatchObject({
+            uri: "/shop/cart",
+        });
+    });
+
+    it("applies the first matching rewrite", () => {
+        const rewrites = [
+            { source: "/app/*", destination: "/app/index.html" },
+            { source: "/*", destination: "/fallback.html" },
+        ];
+        expect(handle([], rewrites, "/app/settings")).toMatchObject({
+            uri: "/app/index.html",
+        });
+        expect(handle([], rewrites, "/other")).toMatchObject({
+            uri: "/fallback.html",
+        });
+    });
+
+    it("rejects invalid rules", () => {
+        expect(() =>
+            redirectsSnippet([{ source: "old", destination: "/new" }], []),
+        ).toThrow("should start with /");
+        expect(() =>
+            redirectsSnippet([{ source: "/old", destination: "/new/*" }], []),
+        ).toThrow("more wildcards");
+        expect(() =>
+            redirectsSnippet(
+                [],
+                [{ source: "/old", destination: "https://example.com" }],
+            ),
+        ).toThrow("should be a path");
+    });
+
+    it("combines with host forwarding in a single function", async () => {
+        const project = await slsProject("nitro", {
+            redirects: [{ source: "/old", destination: "/new" }],
+            rewrites: [{ source: "/app/*", destination: "/app" }],
+        });
+        await project.pluginManager.spawn("package");
+        const resources =
+            project.service.provider.compiledCloudFormationTemplate.Resources;
+        const distribution =
+            resources.SiteDistribution.Properties.DistributionConfig;
+        expect(
+            distribution.DefaultCacheBehavior.FunctionAssociations[0]
+                .FunctionARN,
+        ).toEqual({
+            "Fn::GetAtt": [
+                "SiteViewerRequestRedirectsForwardHost",
+                "FunctionARN",
+            ],
+        });
+        const code =
+            resources.SiteViewerRequestRedirectsForwardHost.Properties
+                .FunctionCode;
+        expect(code).toContain("x-forwarded-host");
+        expect(code.indexOf('"/new"')).toBeLessThan(
+            code.indexOf("x-forwarded-host"),
+        );
+    });
+
+    it("stores exact redirects in a KeyValueStore", async () => {
+        const project = await slsProject("nitro", {
+            redirectStore: true,
+            redirects: [
+                { source: "/old", destination: "/new" },
+                { source: "/legacy/*", destination: "/*" },
+            ],
+        });
+        await project.pluginManager.spawn("package");
+        const resources =
+            project.service.provider.compiledCloudFormationTemplate.Resources;
+        const store = resources.SiteRedirectStore;
+        expect(store.Type).toBe("AWS::CloudFront::KeyValueStore");
+        expect(store.Properties.ImportSource.SourceArn["Fn::Sub"]).toMatch(
+            /^arn:\$\{AWS::Partition\}:s3:::\$\{ServerlessDeploymentBucket\}\/serverless\/nitro-test\/dev\/frontend-redirects-\w+\.json$/,
+        );
+        const { FunctionCode, FunctionConfig } =
+            resources.SiteViewerRequestRedirectsForwardHost.Properties;
+        expect(FunctionCode).toMatch(
+            /^import cf from "cloudfront";.* async function handler/,
+        );
+        expect(FunctionCode).not.toContain('"/new"');
+        expect(FunctionCode).toContain("legacy");
+        expect(FunctionConfig.KeyValueStoreAssociations).toEqual([
+            {
+                KeyValueStoreARN: {
+                    "Fn::GetAtt": ["SiteRedirectStore", "Arn"],
+                },
+            },
+        ]);
+        expect(
+            JSON.parse(
+                redirectStoreData([{ source: "/old", destination: "/new" }]),
+            ),
+        ).toEqual({ data: [{ key: "/old", value: '[301,"/new",true]' }] });
+    });
+
+    it("rejects a combined function over the size limit of CloudFront", async () => {
+        // As many redirects as fit in a snippet, which counts characters
+        const redirects: RedirectRule[] = [];
+        for (let i = 0; ; i++) {
+            const rule = {
+                source: `/old/${i}`,
+                destination: `/ニュース/記事-${i}`,
+            };
+            if (
+                redirectsSnippet([...redirects, rule], []).code.length >
+                MaxViewerRequestSnippetSize
+            ) {
+                break;
+            }
+            redirects.push(rule);
+        }
+        const project = await slsProject("nitro-prerender", {
+            redirects,
+            compression: true,
+            basicAuth: { username: "preview", password: "secret" },
+        });
+        await expect(project.pluginManager.spawn("package")).rejects.toThrow(
+            /over the CloudFront Functions limit of 10240 bytes, because of redirects \(\d+ bytes\)\. Set redirectStore/,
+        );
+    });
+});
@@ -0,0 +1,333 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import * as path from "node:path";
+import { describe, expect, it, jest } from "@jest/globals";
+import type Serverless from "serverless";
+import FrontendPlugin from "../../src/index";
+import {
+    isReleaseRecordKey,
+    type ReleaseSnapshot,
+    ReleaseSnapshotFile,
+    releaseIdFromOriginPath,
+    releaseOriginPath,
+    releasePackageKey,
+    releaseRecordKey,
+    releaseSnapshotKey,
+    rollbackTemplate,
+} from "../../src/releases";
+import { slsProject } from "../helpers";
+
+type Request = { method: string; params: Record<string, unknown> };
+
+function frontendPlugin(project: Serverless): FrontendPlugin {
+    return project.pluginManager.plugins.find(
+        (plugin) => plugin instanceof FrontendPlugin,
+    ) as FrontendPlugin;
+}
+
+// Packages a versioned release of the nitro project and reads its snapshot
+async function packagedSnapshot(): Promise<ReleaseSnapshot> {
+    const project = await slsProject("nitro", {
+        versioned: true,
+        buildId: "r1",
+        assetDeployment: "custom-resource",
+    });
+    await project.pluginManager.spawn("package");
+    return JSON.parse(
+        await fs.readFile(
+            path.join(project.serviceDir, ReleaseSnapshotFile),
+            "utf8",
+        ),
+    );
+}
+
+/**
+ * Answers the requests of a deployed stack, whose site bucket has the
+ * release r1 and whose distribution serves the release r2.
+ */
+function mockStack(plugin: FrontendPlugin, snapshot: ReleaseSnapshot) {
+    const requests: Request[] = [];
+    const deployed = {
+        Resources: {
+            ...snapshot.resources,
+            SiteAssets: { Type: "Custom::SiteAssets" },
+            BackendLambdaFunction: {
+                Type: "AWS::Lambda::Function",
+                Properties: {},
+            },
+        },
+        Outputs: snapshot.outputs,
+    };
+    jest.spyOn(plugin.provider, "request").mockImplementation(
+        async (_service, method, params) => {
+            const { Key } = params as { Key?: string };
+            requests.push({ method, params: params as Request["params"] });
+            switch (method) {
+                case "describeStacks":
+                    return {
+                        Stacks: [
+                            {
+                                StackStatus: "UPDATE_COMPLETE",
+                                Parameters: [{ ParameterKey: "Stage" }],
+                                Outputs: [
+                                    {
+                                        OutputKey: "SiteBucketName",
+                                        OutputValue: "site-bucket",
+                                    },
+                                ],
+                            },
+                        ],
+                    };
+                case "describeStackResources":
+                    return {
+                        StackResources: [
+                            {
+                                LogicalResourceId: "SiteDistribution",
+                                PhysicalResourceId: "E123",
+                            },
+                        ],
+                    };
+                case "describeStackResource":
+                    return {
+                        StackResourceDetail: {
+                            PhysicalResourceId: "deployment-bucket",
+                        },
+                    };
+                case "getTemplate":
+                    return { TemplateBody: JSON.stringify(deployed) };
+                case "putObject":
+                case "updateStack":
+                    return {};
+                case "getDistributionConfig":
+                    return {
+                        DistributionConfig: {
+                            Origins: {
+                                Items: [
+                                    {
+                                        Id: "StaticFiles",
+                                        OriginPath: releaseOriginPath("r2"),
+                                    },
+                                ],
+                            },
+                        },
+                        ETag: "etag",
+                    };
+                case "listObjectsV2":
+                    return {
+                        Contents: [
+                            { Key: releaseRecordKey("r1") },
+                            { Key: releaseSnapshotKey("r1") },
+                            { Key: releasePackageKey("r1", "server") },
+                            { Key: releaseRecordKey("r2") },
+                        ],
+                    };
+                case "getObject":
+                    switch (Key) {
+                        case releaseRecordKey("r1"):
+                            return {
+                                Body: Buffer.from(
+                                    '{"id":"r1","createdAt":"2025-06-01T00:00:00Z"}',
+                                ),
+                            };
+                        case releaseRecordKey("r2"):
+                            return {
+                                Body: Buffer.from(
+                                    '{"id":"r2","createdAt":"2025-06-02T00:00:00Z"}',
+                                ),
+                            };
+                        case releaseSnapshotKey("r1"):
+                            return {
+                                Body: Buffer.from(JSON.stringify(snapshot)),
+                            };
+                        case releaseSnapshotKey("r2"):
+                            // Recorded without its resources
+                            throw Object.assign(new Error("No such key"), {
+                                providerError: { code: "NoSuchKey" },
+                            });
+                    }
+                    break;
+                case "createInvalidation":
+                    return { Invalidation: { Id: "I1", Status: "InProgress" } };
+            }
+            throw new Error(`Unexpected request ${method} ${Key ?? ""}`);
+        },
+    );
+    return requests;
+}
+
+describe("releases", () => {
+    it("keeps the files of a release next to its record", () => {
+        expect(releaseRecordKey("r1")).toBe("_frontend/releases/r1.json");
+        expect(releaseSnapshotKey("r1")).toBe(
+            "_frontend/releases/r1/release.json",
+        );
+        expect(releasePackageKey("r1", "server")).toBe(
+            "_frontend/releases/r1/server.zip",
+        );
+        expect(isReleaseRecordKey(releaseRecordKey("r1"))).toBe(true);
+        expect(isReleaseRecordKey(releaseSnapshotKey("r1"))).toBe(false);
+        expect(isReleaseRecordKey(releasePackageKey("r1", "server"))).toBe(
+            false,
+        );
+        expect(isReleaseRecordKey("_frontend/manifest.json")).toBe(false);
+    });
+
+    it("finds the release of an origin path", () => {
+        expect(releaseOriginPath("r1")).toBe("/releases/r1");
+        expect(releaseIdFromOriginPath("/releases/r1")).toBe("r1");
+        expect(releaseIdFromOriginPath("/releases/r1/fallback")).toBe("r1");
+        expect(releaseIdFromOriginPath("")).toBeUndefined();
+        expect(releaseIdFromOriginPath(undefined)).toBeUndefined();
+    });
+
+    it("records the resources of the site, with the code of its functions in the site bucket", async () => {
+        const snapshot = await packagedSnapshot();
+        expect(snapshot.releaseId).toBe("r1");
+        expect(snapshot.packages).toEqual({
+            server: ".serverless/frontend-function.zip",
+        });
+        const { resources } = snapshot;
+        expect(resources.ServerLambdaFunction.Properties.Code).toEqual({
+            S3Bucket: { Ref: "SiteBucket" },
+            S3Key: releasePackageKey("r1", "server"),
+        });
+        expect(resources).toHaveProperty("ServerLogGroup");
+        expect(resources).toHaveProperty("ServerLambdaFunctionUrl");
+        expect(resources).toHaveProperty("SiteBucket");
+        expect(resources).toHaveProperty("SiteDistribution");
+        expect(resources.SiteDistribution.DependsOn).toBeUndefined();
+        expect(resources).not.toHaveProperty("SiteAssets");
+        expect(resources).not.toHaveProperty("SiteAssetsFunction");
+        expect(resources).not.toHaveProperty("IamRoleLambdaExecution");
+        expect(resources).not.toHaveProperty("ServerlessDeploymentBucket");
+        expect(snapshot.outputs).toHaveProperty("SiteBucketName");
+    });
+
+    it("replaces only the resources of the site in the template", () => {
+        const release: ReleaseSnapshot = {
+            releaseId: "r1",
+            packages: {},
+            resources: {
+                SiteBucket: { Type: "AWS::S3::Bucket", Properties: {} },
+            },
+            outputs: {},
+        };
+        const current: ReleaseSnapshot = {
+            ...release,
+            releaseId: "r2",
+            resources: {
+                SiteBucket: { Type: "AWS::S3::Bucket", Properties: {} },
+                SiteRewrites: {
+                    Type: "AWS::CloudFront::Function",
+                    Properties: {},
+                },
+            },
+        };
+        const template = rollbackTemplate(
+            {
+                Resources: {
+                    ...current.resources,
+                    BackendLambdaFunction: {
+                        Type: "AWS::Lambda::Function",
+                        Properties: {},
+                    },
+                },
+            },
+            current,
+            release,
+        );
+        expect(Object.keys(template.Resources).sort()).toEqual([
+            "BackendLambdaFunction",
+            "SiteBucket",
+        ]);
+    });
+
+    it("lists the releases to roll back to", async () => {
+        const project = await slsProject("nitro", { versioned: true });
+        const plugin = frontendPlugin(project);
+        const requests = mockStack(plugin, await packagedSnapshot());
+        const notice = jest.spyOn(plugin.log, "notice");
+        await plugin.rollback();
+        expect(notice.mock.calls.map(([message]) => message)).toEqual([
+            "r2  2025-06-02T00:00:00Z  (current)",
+            "r1  2025-06-01T00:00:00Z",
+            "Specify the release to roll back to using --release <id>",
+        ]);
+        expect(requests.map((request) => request.method)).not.toContain(
+            "updateStack",
+        );
+    });
+
+    it("rolls back through an update of the deployed stack", async () => {
+        const snapshot = await packagedSnapshot();
+        const project = await slsProject("nitro", { versioned: true });
+        const plugin = frontendPlugin(project);
+        const requests = mockStack(plugin, snapshot);
+        const spawn = jest.spyOn(project.pluginManager, "spawn");
+        plugin.options.release = "r1";
+        await plugin.rollback();
+
+        expect(spawn).not.toHaveBeenCalled();
+        const methods = requests.map((request) => request.method);
+        expect(methods).not.toContain("updateDistribution");
+        expect(methods).not.toContain("updateFunctionCode");
+        const upload = requests.find(
+            (request) => request.method === "putObject",
+        );
+        expect(upload?.params).toMatchObject({
+            Bucket: "deployment-bucket",
+            Key: expect.stringMatching(
+                /^serverless\/.+\/compiled-cloudformation-template\.json$/,
+            ),
+        });
+        const template = JSON.parse(upload?.params.Body as string);
+        expect(
+            template.Resources.SiteDistribution.Properties.DistributionConfig
+                .Origins[0].OriginPath,
+        ).toBe("/releases/r1");
+        expect(template.Resources).toHaveProperty("BackendLambdaFunction");
+        expect(template.Resources).toHaveProperty("SiteAssets");
+        expect(
+            requests.find((request) => request.method === "updateStack")
+                ?.params,
+        ).toMatchObject({
+            TemplateURL: expect.stringContaining(upload?.params.Key as string),
+            Parameters: [{ ParameterKey: "Stage", UsePreviousValue: true }],
+        });
+        expect(requests[requests.length - 1]).toEqual({
+            method: "createInvalidation",
+            params: expect.objectContaining({
+                DistributionId: "E123",
+                InvalidationBatch: expect.objectContaining({
+                    Paths: { Quantity: 1, Items: ["/*"] },
+                }),
+            }),
+        });
+    });
+
+    it("gives another server build another release ID", async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), "release-"));
+        try {
+            await fs.cp(path.join(__dirname, "../projects/nitro"), directory, {
+                recursive: true,
+                filter: (source) => !source.includes(".serverless"),
+            });
+            const packagedReleaseId = async () => {
+                const project = await slsProject(directory, {
+                    versioned: true,
+                });
+                await project.pluginManager.spawn("package");
+                return frontendPlugin(project).releaseId();
+            };
+            const releaseId = await packagedReleaseId();
+            expect(await packagedReleaseId()).toBe(releaseId);
+            await fs.appendFile(
+                path.join(directory, ".output/server/index.js"),
+                "// Changed\n",
+            );
+            expect(await packagedReleaseId()).not.toBe(releaseId);
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import FrontendPlugin from "../../src/index";
+import { slsProject } from "../helpers";
+
+describe("removing the site", () => {
+    it("empties versioned buckets page by page", async () => {
+        const project = await slsProject("nitro");
+        const plugin = project.pluginManager.plugins.find(
+            (plugin) => plugin instanceof FrontendPlugin,
+        ) as FrontendPlugin;
+        const versions = Array.from({ length: 1500 }, (_, i) => ({
+            Key: `assets/${i}.js`,
+            VersionId: `v${i}`,
+        }));
+        const deleted: unknown[][] = [];
+        jest.spyOn(plugin.provider, "request").mockImplementation(
+            async (_service, method, params) => {
+                const { KeyMarker } = params as { KeyMarker?: string };
+                switch (method) {
+                    case "getBucketVersioning":
+                        return { Status: "Enabled" };
+                    case "listObjectVersions":
+                        return KeyMarker === undefined
+                            ? {
+                                  Versions: versions.slice(0, 1200),
+                                  IsTruncated: true,
+                                  NextKeyMarker: "assets/1199.js",
+                                  NextVersionIdMarker: "v1199",
+                              }
+                            : {
+                                  Versions: versions.slice(1200),
+                                  DeleteMarkers: [
+                                      { Key: "index.html", VersionId: "d1" },
+                                  ],
+                                  IsTruncated: false,
+                              };
+                    case "deleteObjects":
+                        deleted.push(
+                            (params as { Delete: { Objects: unknown[] } })
+                                .Delete.Objects,
+                        );
+                        return {};
+                }
+                throw new Error(`Unexpected request ${method}`);
+            },
+        );
+        await plugin.deleteObjects("site-bucket");
+        expect(deleted.map((objects) => objects.length)).toEqual([
+            1000, 200, 301,
+        ]);
+        expect(deleted[2]).toContainEqual({
+            Key: "index.html",
+            VersionId: "d1",
+        });
+    });
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "@jest/globals";
+import type { FrameworkContext } from "../../src/framework";
+import { BuiltinFrameworks } from "../../src/frameworks";
+import { inlinedRouteRules } from "../../src/nitro";
+import {
+    redirectSnippet,
+    resolveRouteRules,
+    routeCacheTTL,
+    routePathPattern,
+} from "../../src/route-rules";
+import { slsProject } from "../helpers";
+
+describe("route rules", () => {
+    it("merges the rules of wildcard routes, most specific first", () => {
+        expect(
+            resolveRouteRules({
+                "/**": { headers: { "x-frame-options": "DENY" } },
+                "/blog/**": { swr: 60 },
+                "/blog/archive": { cache: false },
+            }),
+        ).toEqual([
+            {
+                route: "/blog/archive",
+                rule: {
+                    cache: false,
+                    swr: 60,
+                    headers: { "x-frame-options": "DENY" },
+                },
+            },
+            {
+                route: "/blog/**",
+                rule: { swr: 60, headers: { "x-frame-options": "DENY" } },
+            },
+            { route: "/**", rule: { headers: { "x-frame-options": "DENY" } } },
+        ]);
+    });
+
+    it("converts routes to path patterns", () => {
+        expect(routePathPattern("/blog/**")).toBe("blog/*");
+        expect(routePathPattern("/users/:id/posts")).toBe("users/*/posts");
+        expect(routePathPattern("/about")).toBe("about");
+    });
+
+    it("derives the TTL from cache, swr and isr", () => {
+        expect(routeCacheTTL({ cache: { maxAge: 60 } })).toBe(60);
+        expect(routeCacheTTL({ swr: 3600 })).toBe(3600);
+        expect(routeCacheTTL({ swr: true })).toBe(1);
+        expect(routeCacheTTL({ isr: true })).toBe(31536000);
+        expect(routeCacheTTL({ cache: false })).toBe(false);
+        expect(routeCacheTTL({ headers: {} })).toBeUndefined();
+    });
+
+    it("redirects the rest of the path of wildcard routes", () => {
+        const snippet = redirectSnippet("/old/**", {
+            to: "/new/**",
+            statusCode: 301,
+        });
+        const handler = new Function("request", snippet.code) as (request: {
+            uri: string;
+        }) => {
+            statusCode: number;
+            headers: { location: { value: string } };
+        };
+        const response = handler({ uri: "/old/page" });
+        expect(response.statusCode).toBe(301);
+        expect(response.headers.location.value).toBe("/new/page");
+    });
+});
+
+describe("the route rules of a Nitro build", () => {
+    it("are read from the inlined runtime config", () => {
+        // As written by Nitro 2.13 without minification
+        const code = [
+            "const _inlineRuntimeConfig = {",
+            '  "app": { "baseURL": "/" },',
+            '  "nitro": { "routeRules": {',
+            '    "/api/**": { "cache": { "maxAge": 60 } },',
+            '    "/about": { "prerender": true }',
+            "  } }",
+            "};",
+        ].join("\n");
+        expect(inlinedRouteRules(code)).toEqual([
+            {
+                "/api/**": { cache: { maxAge: 60 } },
+                "/about": { prerender: true },
+            },
+        ]);
+    });
+
+    it("are read from minified builds", () => {
+        const code = [
+            "function n(e){return e.context._nitro.routeRules||(e.context._nitro.routeRules={})}",
+            "const r={routeRules:{...t}},",
+            'Oe={app:{baseURL:"/"},nitro:{routeRules:{"/products/**":{swr:3600,cache:{swr:!0,maxAge:36e2}},',
+            "'/old/**':{redirect:{to:`/new/**`,statusCode:301}},\"/caf\\xe9\":{prerender:!1}}}};",
+        ].join("");
+        expect(inlinedRouteRules(code)).toEqual([
+            {
+                "/products/**": {
+                    swr: 3600,
+                    cache: { swr: true, maxAge: 3600 },
+                },
+                "/old/**": { redirect: { to: "/new/**", statusCode: 301 } },
+                "/caf\u00e9": { prerender: false },
+            },
+        ]);
+        expect(inlinedRouteRules("const r = { routeRules: rules };")).toEqual(
+            [],
+        );
+    });
+
+    it("fail the build when they can't be told apart from other code", async () => {
+        const nitro = BuiltinFrameworks.find(
+            (adapter) => adapter.name === "nitro",
+        );
+        const files: Record<string, string> = {
+            "index.mjs":
+                'const _inlineRuntimeConfig = { "nitro": { "routeRules": {} } };',
+            "chunks/docs.mjs":
+                '// Set routeRules: { "/**": { "cache": false } } to disable caching',
+        };
+        const context = {
+            listFiles: async () => Object.keys(files),
+            readFile: async (file: string) =>
+                files[file.substring(".output/server/".length)],
+        } as unknown as FrameworkContext;
+        await expect(nitro?.routeRules?.(context)).rejects.toThrow(
+            "Found different route rules in .output/server (index.mjs, chunks/docs.mjs)",
+        );
+        files["chunks/docs.mjs"] = "";
+        await expect(nitro?.routeRules?.(context)).resolves.toEqual({});
+        delete files["index.mjs"];
+        await expect(nitro?.routeRules?.(context)).rejects.toThrow(
+            "Unable to find the route rules",
+        );
+    });
+});
+
+describe("the CloudFront distribution with route rules", () => {
+    it("applies the route rules from the server build", async () => {
+        const project = await slsProject("nitro-prerender");
+        await project.pluginManager.spawn("package");
+        const resources =
+            project.service.provider.compiledCloudFormationTemplate.Resources;
+        const config = resources.SiteDistribution.Properties.DistributionConfig;
+        const behavior = (pathPattern: string) =>
+            config.CacheBehaviors.find(
+                (behavior: { PathPattern: string }) =>
+                    behavior.PathPattern === pathPattern,
+            );
+
+        expect(behavior("products/*").CachePolicyId).toEqual({
+            Ref: "SiteRouteCachePolicy3600",
+        });
+        expect(
+            resources.SiteRouteCachePolicy3600.Properties.CachePolicyConfig
+                .DefaultTTL,
+        ).toBe(3600);
+        expect(behavior("api/*").CachePolicyId).toBe(
+            "4135ea2d-6df8-44a3-9df3-4b5a84be39ad",
+        );
+
+        const headersPolicy =
+            config.DefaultCacheBehavior.ResponseHeadersPolicyId;
+        expect(behavior("products/*").ResponseHeadersPolicyId).toEqual(
+            headersPolicy,
+        );
+        expect(
+            resources[headersPolicy.Ref].Properties.ResponseHeadersPolicyConfig
+                .CustomHeadersConfig.Items,
+        ).toEqual([
+            { Header: "x-frame-options", Value: "DENY", Override: true },
+        ]);
+
+        const redirect =
+            behavior("old/*").FunctionAssociations[0].FunctionARN[
+                "Fn::GetAtt"
+            ][0];
+        expect(resources[redirect].Properties.FunctionCode).toContain(
+            "statusCode: 301",
+        );
+    });
+});
@@ -0,0 +1,107 @@
+//biome-ignore-all lint/suspicious/noTemplateCurlyInString: CloudFormation
+import { describe, expect, it } from "@jest/globals";
+import { renameReferences, siteLogicalId } from "../../src/sites";
+import { slsProject } from "../helpers";
+
+describe("renaming the references of a site", () => {
+    const renames = new Map([
+        ["SiteBucket", "AdminSiteBucket"],
+        ["SiteDistribution", "AdminSiteDistribution"],
+    ]);
+
+    it("renames Ref, Fn::GetAtt, Fn::Sub and DependsOn", () => {
+        expect(
+            renameReferences(
+                {
+                    Bucket: { Ref: "SiteBucket" },
+                    Domain: { "Fn::GetAtt": ["SiteBucket", "DomainName"] },
+                    Arn: { "Fn::GetAtt": "SiteBucket.Arn" },
+                    Objects: { "Fn::Sub": "${SiteBucket.Arn}/*" },
+                    Source: {
+                        "Fn::Sub": [
+                            "${AWS::AccountId}/${SiteDistribution}/${Path}",
+                            { Path: { Ref: "SiteBucket" } },
+                        ],
+                    },
+                    Other: { Ref: "ServerlessDeploymentBucket" },
+                    DependsOn: ["SiteDistribution"],
+                },
+                renames,
+            ),
+        ).toEqual({
+            Bucket: { Ref: "AdminSiteBucket" },
+            Domain: { "Fn::GetAtt": ["AdminSiteBucket", "DomainName"] },
+            Arn: { "Fn::GetAtt": "AdminSiteBucket.Arn" },
+            Objects: { "Fn::Sub": "${AdminSiteBucket.Arn}/*" },
+            Source: {
+                "Fn::Sub": [
+                    "${AWS::AccountId}/${AdminSiteDistribution}/${Path}",
+                    { Path: { Ref: "AdminSiteBucket" } },
+                ],
+            },
+            Other: { Ref: "ServerlessDeploymentBucket" },
+            DependsOn: ["AdminSiteDistribution"],
+        });
+    });
+
+    it("suffixes the stack name in substitutions", () => {
+        expect(
+            renameReferences(
+                { Name: { "Fn::Sub": "${AWS::StackName}-ssr" } },
+                renames,
+                "-admin",
+            ),
+        ).toEqual({ Name: { "Fn::Sub": "${AWS::StackName}-admin-ssr" } });
+    });
+
+    it("prefixes logical IDs with the site name", () => {
+        expect(siteLogicalId("customer-portal", "SiteBucket")).toBe(
+            "CustomerPortalSiteBucket",
+        );
+        expect(siteLogicalId(undefined, "SiteBucket")).toBe("SiteBucket");
+    });
+});
+
+describe("multiple sites", () => {
+    it("namespaces the resources and functions of each site", async () => {
+        const project = await slsProject("nitro", {
+            framework: undefined,
+            sites: {
+                shop: { framework: "nitro" },
+                admin: { root: "../react-router" },
+            },
+        });
+        await project.pluginManager.spawn("package");
+        const template =
+            project.service.provider.compiledCloudFormationTemplate;
+        const resources = template.Resources;
+
+        expect(resources).not.toHaveProperty("SiteBucket");
+        expect(resources).toHaveProperty("ShopSiteBucket");
+        expect(resources).toHaveProperty("AdminSiteBucket");
+        expect(template.Outputs).toHaveProperty("AdminSiteURL");
+        expect(project.service.functions["admin-server"].name).toBe(
+            "nitro-test-dev-admin-server",
+        );
+        expect(
+            project.service.functions["admin-server"].package?.artifact,
+        ).toMatch(/\.serverless\/admin\/frontend-function\.zip$/);
+
+        expect(resources.AdminSiteBucketPolicy.Properties.Bucket).toEqual({
+            Ref: "AdminSiteBucket",
+        });
+        const origins =
+            resources.AdminSiteDistribution.Properties.DistributionConfig
+                .Origins;
+        expect(
+            origins.find(
+                (origin: { Id: string }) => origin.Id === "ServerFunction",
+            ).DomainName["Fn::Select"][1]["Fn::Split"][1],
+        ).toEqual({
+            "Fn::GetAtt": ["AdminDashserverLambdaFunctionUrl", "FunctionUrl"],
+        });
+        expect(
+            resources.AdminSiteSSRCachePolicy.Properties.CachePolicyConfig.Name,
+        ).toEqual({ "Fn::Sub": "${AWS::StackName}-admin-ssr" });
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "@jest/globals";
+import { wafResources } from "../../src/waf";
+import { slsProject } from "../helpers";
+
+describe("the web ACL", () => {
+    it("blocks in the order of the config, after allowing IP addresses", () => {
+        const resources = wafResources({
+            managedRules: [
+                "AWSManagedRulesCommonRuleSet",
+                {
+                    name: "AWSManagedRulesKnownBadInputsRuleSet",
+                    excludedRules: ["Host_localhost_HEADER"],
+                },
+            ],
+            rateLimit: 1000,
+            allowedIps: ["192.0.2.0/24", "2001:db8::/32"],
+            blockedIps: ["198.51.100.7/32"],
+            blockedCountries: ["KP"],
+        });
+        expect(Object.keys(resources)).toEqual([
+            "SiteWafAllowedIPv4",
+            "SiteWafAllowedIPv6",
+            "SiteWafBlockedIPv4",
+            "SiteWebACL",
+        ]);
+        expect(resources.SiteWafAllowedIPv6.Properties).toMatchObject({
+            Scope: "CLOUDFRONT",
+            IPAddressVersion: "IPV6",
+            Addresses: ["2001:db8::/32"],
+        });
+        const { Scope, Rules } = resources.SiteWebACL.Properties as {
+            Scope: string;
+            Rules: Array<Record<string, unknown>>;
+        };
+        expect(Scope).toBe("CLOUDFRONT");
+        expect(Rules.map((rule) => [rule.Name, rule.Priority])).toEqual([
+            ["allowed-ips", 0],
+            ["blocked-ips", 1],
+            ["blocked-countries", 2],
+            ["rate-limit", 3],
+            ["AWSManagedRulesCommonRuleSet", 4],
+            ["AWSManagedRulesKnownBadInputsRuleSet", 5],
+        ]);
+        expect(Rules[0]).toMatchObject({
+            Action: { Allow: {} },
+            Statement: {
+                OrStatement: {
+                    Statements: [
+                        {
+                            IPSetReferenceStatement: {
+                                Arn: {
+                                    "Fn::GetAtt": ["SiteWafAllowedIPv4", "Arn"],
+                                },
+                            },
+                        },
+                        {
+                            IPSetReferenceStatement: {
+                                Arn: {
+                                    "Fn::GetAtt": ["SiteWafAllowedIPv6", "Arn"],
+                                },
+                            },
+                        },
+                    ],
+                },
+            },
+        });
+        expect(Rules[3].Statement).toEqual({
+            RateBasedStatement: { Limit: 1000, AggregateKeyType: "IP" },
+        });
+        expect(Rules[5]).toMatchObject({
+            OverrideAction: { None: {} },
+            Statement: {
+                ManagedRuleGroupStatement: {
+                    VendorName: "AWS",
+                    Name: "AWSManagedRulesKnownBadInputsRuleSet",
+                    RuleActionOverrides: [
+                        {
+                            Name: "Host_localhost_HEADER",
+                            ActionToUse: { Count: {} },
+                        },
+                    ],
+                },
+            },
+        });
+    });
+
+    it("attaches the web ACL to the distribution", async () => {
+        const project = await slsProject("nitro", {
+            waf: { managedRules: ["AWSManagedRulesCommonRuleSet"] },
+        });
+        await project.pluginManager.spawn("package");
+        const resources =
+            project.service.provider.compiledCloudFormationTemplate.Resources;
+        expect(resources.SiteWebACL.Type).toBe("AWS::WAFv2::WebACL");
+        expect(
+            resources.SiteDistribution.Properties.DistributionConfig.WebACLId,
+        ).toEqual({ "Fn::GetAtt": ["SiteWebACL", "Arn"] });
+    });
+
+    it("uses an existing web ACL", async () => {
+        const arn =
+            "arn:aws:wafv2:us-east-1:123456789012:global/webacl/site/a1b2c3";
+        const project = await slsProject("nitro", { waf: arn });
+        project.service.provider.region = "eu-west-1";
+        await project.pluginManager.spawn("package");
+        const resources =
+            project.service.provider.compiledCloudFormationTemplate.Resources;
+        expect(resources).not.toHaveProperty("SiteWebACL");
+        expect(
+            resources.SiteDistribution.Properties.DistributionConfig.WebACLId,
+        ).toBe(arn);
+    });
+
+    it("only creates web ACLs in us-east-1", async () => {
+        const project = await slsProject("nitro", { waf: { rateLimit: 500 } });
+        project.service.provider.region = "eu-west-1";
+        await expect(project.pluginManager.spawn("package")).rejects.toThrow(
+            "us-east-1",
+        );
+    });
+});